@@ -0,0 +1,159 @@
+// src/api/BabyNamesApiServer.ts
+//
+// Read-only HTTP API over the BabyNames table. Every response is JSON;
+// errors use { error: { code, message } } with the AppError's code and
+// statusCode, so clients can branch on `code` rather than on message text.
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { logger as rootLogger } from '../utils/Logger';
+import { AppError, handleError } from '../utils/ErrorHandler';
+import { BabyNameQueryService } from '../services/BabyNameQueryService';
+import { NameSearchService } from '../services/search/NameSearchService';
+import { QueryParams, parseNameText } from './QueryParams';
+import { openApiSpec } from './OpenApiSpec';
+
+const logger = rootLogger.child({ service: 'Api' });
+
+interface Route {
+  pattern: RegExp;                        // Matched against the path; groups become `params`
+  handler: (params: string[], query: URLSearchParams) => Promise<unknown>;
+}
+
+export interface ApiServerOptions {
+  queries?: BabyNameQueryService;
+  nameSearch?: NameSearchService;
+  defaultPageSize?: number;
+}
+
+export class BabyNamesApiServer {
+  private server: http.Server;
+  private queries: BabyNameQueryService;
+  private nameSearch: NameSearchService;
+  private defaultPageSize: number;
+  private routes: Route[];
+
+  constructor(options: ApiServerOptions = {}) {
+    this.queries = options.queries ?? new BabyNameQueryService();
+    this.nameSearch = options.nameSearch ?? new NameSearchService();
+    this.defaultPageSize = options.defaultPageSize ?? 20;
+
+    this.routes = [
+      { pattern: /^\/names$/, handler: (_, query) => this.names(query) },
+      { pattern: /^\/names\/([^/]+)$/, handler: ([name], query) => this.nameHistory(name, query) },
+      { pattern: /^\/search$/, handler: (_, query) => this.search(query) },
+      { pattern: /^\/top$/, handler: (_, query) => this.top(query) },
+      { pattern: /^\/stats$/, handler: (_, query) => this.stats(query) },
+      { pattern: /^\/openapi\.json$/, handler: async () => openApiSpec },
+    ];
+
+    this.server = http.createServer((req, res) => {
+      void this.handle(req, res);
+    });
+  }
+
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    const { port: actual } = this.server.address() as AddressInfo;
+    const baseURL = `http://${host}:${actual}`;
+    logger.info(`Baby names API listening on ${baseURL} (OpenAPI document at ${baseURL}/openapi.json)`);
+    return baseURL;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) => this.server.close(err => (err ? reject(err) : resolve())));
+  }
+
+  private async names(query: URLSearchParams) {
+    const params = new QueryParams(query, ['prefix', 'sex', 'year', 'page', 'pageSize']);
+    return this.queries.search({
+      prefix: params.nameText('prefix'),
+      sex: params.sex(),
+      year: params.year(),
+      page: params.integer('page', { min: 1, max: 1_000_000, default: 1 }),
+      pageSize: params.integer('pageSize', { min: 1, max: 100, default: this.defaultPageSize }),
+    });
+  }
+
+  private async nameHistory(encodedName: string, query: URLSearchParams) {
+    const params = new QueryParams(query, ['sex']);
+    let name: string;
+    try {
+      name = decodeURIComponent(encodedName);
+    } catch {
+      throw new AppError('INVALID_PARAMETER', 400, 'Name is not valid URL encoding');
+    }
+    return this.queries.history(parseNameText(name), params.sex());
+  }
+
+  private async search(query: URLSearchParams) {
+    const params = new QueryParams(query, ['q', 'sex', 'limit']);
+    const q = params.nameText('q');
+    if (q === undefined) {
+      throw new AppError('INVALID_PARAMETER', 400, '"q" is required');
+    }
+    return this.nameSearch.search(q, { sex: params.sex(), limit: params.integer('limit', { min: 1, max: 100, default: 20 }) });
+  }
+
+  private async top(query: URLSearchParams) {
+    const params = new QueryParams(query, ['year', 'sex', 'limit']);
+    const year = params.year();
+    const sex = params.sex();
+    const data = await this.queries.top({ year, sex, limit: params.integer('limit', { min: 1, max: 100, default: 10 }) });
+    return { year: year ?? null, sex: sex ?? null, data };
+  }
+
+  private async stats(query: URLSearchParams) {
+    new QueryParams(query, []);   // Takes no parameters; rejects any given
+    return this.queries.stats();
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const startedAt = Date.now();
+    const method = req.method ?? 'GET';
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    const respond = (status: number, payload: unknown, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+      res.end(method === 'HEAD' ? undefined : JSON.stringify(payload));
+      const durationMs = Date.now() - startedAt;
+      logger.debug(`${method} ${url.pathname}${url.search} → ${status} (${durationMs}ms)`, {
+        method,
+        path: url.pathname,
+        status,
+        durationMs,
+      });
+    };
+
+    try {
+      const path = url.pathname.length > 1 ? url.pathname.replace(/\/+$/, '') : url.pathname;
+      const route = this.routes.find(r => r.pattern.test(path));
+      if (!route) {
+        throw new AppError('NOT_FOUND', 404, `No route for ${path}`);
+      }
+      if (method !== 'GET' && method !== 'HEAD') {
+        return respond(
+          405,
+          { error: { code: 'METHOD_NOT_ALLOWED', message: `${method} is not supported; this API is read-only` } },
+          { Allow: 'GET, HEAD' }
+        );
+      }
+
+      const params = route.pattern.exec(path)!.slice(1);
+      respond(200, await route.handler(params, url.searchParams));
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        return respond(error.statusCode, { error: { code: error.code, message: error.message } });
+      }
+      // Anything else is a bug or a database problem; log it and keep the details out of the response
+      await handleError(error, 'Api', `${method} ${url.pathname} failed`);
+      respond(500, { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+}
@@ -0,0 +1,50 @@
+// src/api/MetricsServer.ts
+//
+// Serves the metrics registry at GET /metrics in the Prometheus text format,
+// so a long pipeline run can be scraped or watched with curl while it runs.
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { logger as rootLogger } from '../utils/Logger';
+import { MetricsRegistry, metrics as defaultRegistry } from '../utils/Metrics';
+
+const logger = rootLogger.child({ service: 'Metrics' });
+
+export class MetricsServer {
+  private server: http.Server;
+
+  constructor(private registry: MetricsRegistry = defaultRegistry) {
+    this.server = http.createServer((req, res) => {
+      const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+      if (pathname !== '/metrics' || (req.method !== 'GET' && req.method !== 'HEAD')) {
+        res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end('Not found; metrics are at /metrics\n');
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(req.method === 'HEAD' ? undefined : this.registry.toPrometheus());
+    });
+  }
+
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    // Scrapers hold keep-alive connections; don't let them keep the process up
+    this.server.unref();
+    const { port: actual } = this.server.address() as AddressInfo;
+    const url = `http://${host}:${actual}/metrics`;
+    logger.info(`Serving metrics at ${url}`);
+    return url;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => this.server.close(err => (err ? reject(err) : resolve())));
+  }
+}
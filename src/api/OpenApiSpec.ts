@@ -0,0 +1,274 @@
+// src/api/OpenApiSpec.ts
+//
+// OpenAPI 3.0 description of the read-only API, served at GET /openapi.json.
+// Keep it in step with the routes in BabyNamesApiServer.
+
+import { defaultValidationSchema } from '../config/ValidationConfig';
+
+const { year, name } = defaultValidationSchema;
+
+const sexParameter = {
+  name: 'sex',
+  in: 'query',
+  required: false,
+  description: 'M or F (also accepts male/female, any case)',
+  schema: { type: 'string', example: 'F' },
+};
+
+const yearParameter = {
+  name: 'year',
+  in: 'query',
+  required: false,
+  schema: { type: 'integer', minimum: year.min, maximum: year.max, example: 1990 },
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+});
+
+const json = (schema: object) => ({ 'application/json': { schema } });
+
+export const openApiSpec = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Baby Names API',
+    version: '1.0.0',
+    description: 'Read-only access to the BabyNames table filled by the import pipeline.',
+  },
+  paths: {
+    '/names': {
+      get: {
+        summary: 'Search names',
+        description: 'Rows matching the filters, ordered by name, sex and year.',
+        parameters: [
+          {
+            name: 'prefix',
+            in: 'query',
+            required: false,
+            description: 'Case-insensitive name prefix',
+            schema: { type: 'string', maxLength: name.maxLength, example: 'Mar' },
+          },
+          sexParameter,
+          yearParameter,
+          { name: 'page', in: 'query', required: false, schema: { type: 'integer', minimum: 1, default: 1 } },
+          {
+            name: 'pageSize',
+            in: 'query',
+            required: false,
+            schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          },
+        ],
+        responses: {
+          200: { description: 'One page of rows', content: json({ $ref: '#/components/schemas/NamePage' }) },
+          400: errorResponse('Invalid or unknown query parameter'),
+        },
+      },
+    },
+    '/names/{name}': {
+      get: {
+        summary: 'Per-year counts for one name',
+        parameters: [
+          {
+            name: 'name',
+            in: 'path',
+            required: true,
+            description: 'Matched case-insensitively',
+            schema: { type: 'string', maxLength: name.maxLength, example: 'Mary' },
+          },
+          sexParameter,
+        ],
+        responses: {
+          200: { description: 'Totals and every (sex, year) row', content: json({ $ref: '#/components/schemas/NameHistory' }) },
+          400: errorResponse('Invalid name or query parameter'),
+          404: errorResponse('No rows for this name (code NAME_NOT_FOUND)'),
+        },
+      },
+    },
+    '/search': {
+      get: {
+        summary: 'Fuzzy and phonetic name search',
+        description:
+          'Spelling variants of a name (Kaitlyn, Caitlin, Katelyn...) found by Soundex, Double Metaphone and prefix, ' +
+          'ranked by Jaro-Winkler and edit distance and grouped into clusters sharing a primary Double Metaphone code.',
+        parameters: [
+          {
+            name: 'q',
+            in: 'query',
+            required: true,
+            schema: { type: 'string', maxLength: name.maxLength, example: 'Kaitlyn' },
+          },
+          sexParameter,
+          {
+            name: 'limit',
+            in: 'query',
+            required: false,
+            description: 'Variants over all clusters',
+            schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          },
+        ],
+        responses: {
+          200: { description: 'Spelling clusters, best match first', content: json({ $ref: '#/components/schemas/FuzzySearch' }) },
+          400: errorResponse('Missing q, or an invalid or unknown query parameter'),
+        },
+      },
+    },
+    '/top': {
+      get: {
+        summary: 'Most common names',
+        description: 'Names ranked by count in one year, or summed over all years when `year` is omitted.',
+        parameters: [
+          yearParameter,
+          sexParameter,
+          { name: 'limit', in: 'query', required: false, schema: { type: 'integer', minimum: 1, maximum: 100, default: 10 } },
+        ],
+        responses: {
+          200: {
+            description: 'Ranked names',
+            content: json({
+              type: 'object',
+              properties: {
+                year: { type: 'integer', nullable: true },
+                sex: { type: 'string', enum: ['M', 'F'], nullable: true },
+                data: { type: 'array', items: { $ref: '#/components/schemas/RankedName' } },
+              },
+            }),
+          },
+          400: errorResponse('Invalid or unknown query parameter'),
+        },
+      },
+    },
+    '/stats': {
+      get: {
+        summary: 'Dataset summary',
+        responses: {
+          200: { description: 'Row, name and count totals', content: json({ $ref: '#/components/schemas/Stats' }) },
+        },
+      },
+    },
+    '/openapi.json': {
+      get: {
+        summary: 'This document',
+        responses: { 200: { description: 'OpenAPI 3.0 document', content: json({ type: 'object' }) } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      NameRow: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          sex: { type: 'string', enum: ['M', 'F'] },
+          year: { type: 'integer', nullable: true, description: 'Null for rows imported without a year' },
+          count: { type: 'integer' },
+        },
+      },
+      NamePage: {
+        type: 'object',
+        properties: {
+          data: { type: 'array', items: { $ref: '#/components/schemas/NameRow' } },
+          pagination: {
+            type: 'object',
+            properties: {
+              page: { type: 'integer' },
+              pageSize: { type: 'integer' },
+              total: { type: 'integer' },
+              totalPages: { type: 'integer' },
+            },
+          },
+        },
+      },
+      NameHistory: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          total: { type: 'integer' },
+          bySex: {
+            type: 'object',
+            properties: { M: { type: 'integer' }, F: { type: 'integer' } },
+          },
+          years: { type: 'array', items: { $ref: '#/components/schemas/NameRow' } },
+        },
+      },
+      RankedName: {
+        type: 'object',
+        properties: {
+          rank: { type: 'integer' },
+          name: { type: 'string' },
+          sex: { type: 'string', enum: ['M', 'F'] },
+          count: { type: 'integer' },
+        },
+      },
+      FuzzySearch: {
+        type: 'object',
+        properties: {
+          query: { type: 'string' },
+          keys: {
+            type: 'object',
+            properties: {
+              soundex: { type: 'string', example: 'K345' },
+              metaphone: { type: 'string', example: 'KTLN' },
+              metaphoneAlt: { type: 'string', example: 'KTLN' },
+            },
+          },
+          clusters: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                key: { type: 'string', description: 'Primary Double Metaphone code shared by the variants' },
+                count: { type: 'integer' },
+                variants: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string' },
+                      count: { type: 'integer' },
+                      score: { type: 'number', minimum: 0, maximum: 1 },
+                      distance: { type: 'integer', description: 'Levenshtein distance, ignoring case and accents' },
+                      matchedBy: { type: 'array', items: { type: 'string', enum: ['exact', 'prefix', 'metaphone', 'soundex'] } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      Stats: {
+        type: 'object',
+        properties: {
+          rows: { type: 'integer' },
+          names: { type: 'integer', description: 'Distinct names' },
+          totalCount: { type: 'integer', description: 'Sum of count over every row' },
+          years: {
+            type: 'object',
+            properties: { first: { type: 'integer', nullable: true }, last: { type: 'integer', nullable: true } },
+          },
+          bySex: {
+            type: 'object',
+            additionalProperties: {
+              type: 'object',
+              properties: { rows: { type: 'integer' }, totalCount: { type: 'integer' } },
+            },
+          },
+          synced: { type: 'integer', description: 'Rows sent to HubSpot at least once' },
+        },
+      },
+      Error: {
+        type: 'object',
+        properties: {
+          error: {
+            type: 'object',
+            properties: {
+              code: { type: 'string', example: 'INVALID_PARAMETER' },
+              message: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,91 @@
+// src/api/QueryParams.ts
+
+import { AppError } from '../utils/ErrorHandler';
+import { defaultValidationSchema } from '../config/ValidationConfig';
+import type { Sex } from '../services/BabyNameQueryService';
+
+// Letters plus the punctuation names may contain; keeps LIKE wildcards out of prefixes
+const NAME_TEXT = /^[\p{L}\p{M}'’\-. ]+$/u;
+
+const invalid = (message: string): AppError => new AppError('INVALID_PARAMETER', 400, message);
+
+/**
+ * Typed access to a request's query string. Unknown or repeated parameters
+ * and out-of-range values are rejected with a 400 rather than ignored, so a
+ * typo like `?yaer=1990` doesn't silently return unfiltered results.
+ */
+export class QueryParams {
+  constructor(private params: URLSearchParams, allowed: string[]) {
+    for (const key of new Set(params.keys())) {
+      if (!allowed.includes(key)) {
+        throw new AppError(
+          'UNKNOWN_PARAMETER',
+          400,
+          `Unknown query parameter "${key}"${allowed.length > 0 ? ` (expected ${allowed.join(', ')})` : ''}`
+        );
+      }
+      if (params.getAll(key).length > 1) {
+        throw invalid(`Query parameter "${key}" was given more than once`);
+      }
+    }
+  }
+
+  private raw(key: string): string | undefined {
+    const value = this.params.get(key)?.trim();
+    return value === '' ? undefined : value;
+  }
+
+  integer(key: string, range: { min: number; max: number }): number | undefined;
+  integer(key: string, range: { min: number; max: number; default: number }): number;
+  integer(key: string, range: { min: number; max: number; default?: number }): number | undefined {
+    const value = this.raw(key);
+    if (value === undefined) {
+      return range.default;
+    }
+    if (!/^-?\d+$/.test(value)) {
+      throw invalid(`"${key}" must be an integer, got "${value}"`);
+    }
+    const number = parseInt(value, 10);
+    if (number < range.min || number > range.max) {
+      throw invalid(`"${key}" must be between ${range.min} and ${range.max}, got ${number}`);
+    }
+    return number;
+  }
+
+  year(key: string = 'year'): number | undefined {
+    const { min, max } = defaultValidationSchema.year;
+    return this.integer(key, { min, max });
+  }
+
+  /** Accepts the same codes as the importer (M, F, male, female; any case). */
+  sex(key: string = 'sex'): Sex | undefined {
+    const value = this.raw(key);
+    return value === undefined ? undefined : parseSex(value, key);
+  }
+
+  nameText(key: string): string | undefined {
+    const value = this.raw(key);
+    return value === undefined ? undefined : parseNameText(value, key);
+  }
+}
+
+export function parseSex(value: string, key: string = 'sex'): Sex {
+  const sex = defaultValidationSchema.sexCodes[value.toUpperCase()];
+  if (!sex) {
+    throw invalid(`"${key}" must be M or F, got "${value}"`);
+  }
+  return sex;
+}
+
+/** A name or name prefix: letters and name punctuation, at most the importer's maximum length. */
+export function parseNameText(value: string, key: string = 'name'): string {
+  const text = value.normalize('NFC').trim();
+  const { maxLength } = defaultValidationSchema.name;
+  if (text.length === 0 || text.length > maxLength) {
+    throw invalid(`"${key}" must be 1-${maxLength} characters`);
+  }
+  if (!NAME_TEXT.test(text)) {
+    throw invalid(`"${key}" may only contain letters, spaces, apostrophes, hyphens and periods`);
+  }
+  return text;
+}
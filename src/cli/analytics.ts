@@ -0,0 +1,141 @@
+// src/cli/analytics.ts
+//
+// Usage:
+//   tsx src/cli/analytics.ts refresh                       rebuild the summary tables from BabyNames
+//   tsx src/cli/analytics.ts name <name> [--sex F]         rank, share, peak and decade growth for one name
+//   tsx src/cli/analytics.ts movers <from> <to> [--sex F] [--limit 10]
+//                                                          biggest risers and fallers in share between two years
+//   tsx src/cli/analytics.ts unisex [--limit 20] [--min-count 1000]
+//                                                          names most evenly split between M and F
+//
+// Add --json to print the result as JSON instead of a table.
+
+import { sequelize } from '../config/DatabaseConfig.js';
+import { logger } from '../utils/Logger';
+import { handleError, AppError } from '../utils/ErrorHandler';
+import { parseNameText, parseSex } from '../api/QueryParams';
+import { NameAnalyticsService, Mover } from '../services/analytics/NameAnalyticsService';
+
+const VALUE_OPTIONS = ['--sex', '--limit', '--min-count'];
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function integer(value: string | undefined, label: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new AppError('INVALID_ARGUMENT', 400, `${label} must be a positive integer, got "${value}"`);
+  }
+  return parseInt(value, 10);
+}
+
+const percent = (share: number): string => `${(share * 100).toFixed(3)}%`;
+
+const rank = (value: number | null): string => (value === null ? '-' : `#${value}`);
+
+function printMovers(title: string, movers: Mover[]): void {
+  logger.info(title);
+  for (const m of movers) {
+    const change = `${m.shareChange > 0 ? '+' : ''}${percent(m.shareChange)}`;
+    logger.info(`  ${`${m.name} (${m.sex})`.padEnd(24)} ${rank(m.fromRank).padStart(7)} → ${rank(m.toRank).padEnd(7)} ${change}`);
+  }
+}
+
+async function main(args: string[]): Promise<void> {
+  const positional = args.filter((arg, i) => !arg.startsWith('--') && !VALUE_OPTIONS.includes(args[i - 1]));
+  const [command, ...rest] = positional;
+  const json = args.includes('--json');
+  const sexOption = option('--sex');
+  const sex = sexOption === undefined ? undefined : parseSex(sexOption);
+  const service = new NameAnalyticsService();
+
+  await sequelize.authenticate();
+
+  switch (command) {
+    case 'refresh': {
+      const result = await service.refresh();
+      if (json) console.log(JSON.stringify(result, null, 2));
+      break;
+    }
+
+    case 'name': {
+      if (rest[0] === undefined) {
+        throw new AppError('INVALID_ARGUMENT', 400, 'Usage: analytics name <name> [--sex M|F]');
+      }
+      const trend = await service.trend(parseNameText(rest[0]), sex);
+      if (json) {
+        console.log(JSON.stringify(trend, null, 2));
+        break;
+      }
+      for (const s of trend.summaries) {
+        logger.info(
+          `${s.name} (${s.sex}): ${s.totalCount} births ${s.firstYear}-${s.lastYear}, ` +
+          `peak ${s.peakYear} (${s.peakCount}, ${percent(s.peakShare)}), best rank #${s.bestRank}`
+        );
+        for (const d of trend.decades.filter(d => d.sex === s.sex)) {
+          const growth = d.growth === null ? 'new' : `${d.growth > 0 ? '+' : ''}${(d.growth * 100).toFixed(1)}%`;
+          logger.info(`  ${d.decade}s ${String(d.count).padStart(9)} ${percent(d.share).padStart(9)} ${growth}`);
+        }
+      }
+      if (trend.split) {
+        const { maleCount, femaleCount, unisexScore } = trend.split;
+        logger.info(`M/F split ${maleCount}/${femaleCount}, unisex score ${unisexScore.toFixed(3)}`);
+      }
+      break;
+    }
+
+    case 'movers': {
+      const from = integer(rest[0], 'from year');
+      const to = integer(rest[1], 'to year');
+      if (from === undefined || to === undefined) {
+        throw new AppError('INVALID_ARGUMENT', 400, 'Usage: analytics movers <from> <to> [--sex M|F] [--limit n]');
+      }
+      const report = await service.movers(from, to, { sex, limit: integer(option('--limit'), '--limit') });
+      if (json) {
+        console.log(JSON.stringify(report, null, 2));
+        break;
+      }
+      printMovers(`Risers ${from} → ${to}`, report.risers);
+      printMovers(`Fallers ${from} → ${to}`, report.fallers);
+      break;
+    }
+
+    case 'unisex': {
+      const splits = await service.unisex({
+        limit: integer(option('--limit'), '--limit'),
+        minCount: integer(option('--min-count'), '--min-count'),
+      });
+      if (json) {
+        console.log(JSON.stringify(splits, null, 2));
+        break;
+      }
+      for (const s of splits) {
+        logger.info(`${s.name.padEnd(20)} ${s.unisexScore.toFixed(3)}  M ${s.maleCount} / F ${s.femaleCount}`);
+      }
+      break;
+    }
+
+    default:
+      throw new AppError(
+        'UNKNOWN_COMMAND',
+        400,
+        `Unknown analytics command "${command ?? ''}" (expected refresh, name, movers or unisex)`
+      );
+  }
+}
+
+(async () => {
+  try {
+    await main(process.argv.slice(2));
+    await sequelize.close();
+    process.exit(0);
+  } catch (err) {
+    await handleError(err, 'Analytics', 'Analytics command failed');
+    await sequelize.close();
+    process.exit(1);
+  }
+})();
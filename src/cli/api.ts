@@ -0,0 +1,40 @@
+// src/cli/api.ts
+//
+// Usage:
+//   tsx src/cli/api.ts                 serve the read-only API on API_HOST:API_PORT (default 0.0.0.0:3000)
+//   tsx src/cli/api.ts --port 8080
+//
+// Then e.g.:
+//   curl 'http://localhost:3000/top?year=1990&sex=F&limit=5'
+
+import { sequelize } from '../config/DatabaseConfig.js';
+import { envConfig } from '../config/EnvConfig';
+import { logger } from '../utils/Logger';
+import { handleError } from '../utils/ErrorHandler';
+import { BabyNamesApiServer } from '../api/BabyNamesApiServer';
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+(async () => {
+  try {
+    await sequelize.authenticate();
+    logger.success('Database connected');
+
+    const server = new BabyNamesApiServer({ defaultPageSize: envConfig.api.defaultPageSize });
+    await server.start(parseInt(option('--port') ?? String(envConfig.api.port), 10), option('--host') ?? envConfig.api.host);
+
+    const shutdown = async () => {
+      await server.stop();
+      await sequelize.close();
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  } catch (err) {
+    await handleError(err, 'Api', 'Failed to start the API server');
+    process.exit(1);
+  }
+})();
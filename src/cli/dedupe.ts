@@ -0,0 +1,20 @@
+// src/cli/dedupe.ts
+//
+// Usage:
+//   tsx src/cli/dedupe.ts              collapse duplicate (name, sex, year) rows in BabyNames
+//   tsx src/cli/dedupe.ts --dry-run    only report how many there are
+
+import { sequelize } from '../config/DatabaseConfig.js';
+import { handleError } from '../utils/ErrorHandler';
+import { DedupeService } from '../services/DedupeService';
+
+(async () => {
+  try {
+    await new DedupeService().dedupe({ dryRun: process.argv.includes('--dry-run') });
+    await sequelize.close();
+    process.exit(0);
+  } catch (err) {
+    await handleError(err, 'Dedupe', 'Dedupe failed');
+    process.exit(1);
+  }
+})();
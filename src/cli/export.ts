@@ -0,0 +1,78 @@
+// src/cli/export.ts
+//
+// Usage:
+//   tsx src/cli/export.ts --format csv|ndjson|parquet [--out path] [--gzip] [--split-size 100MB]
+//                         [--sex F] [--from 1990] [--to 1999] [--prefix Mar] [--min-count 100]
+//
+// e.g. every girl's name given at least 1000 times in the 1990s, as gzipped CSV in 50 MB parts:
+//   tsx src/cli/export.ts --format csv --gzip --split-size 50MB --sex F --from 1990 --to 1999 --min-count 1000
+
+import { sequelize } from '../config/DatabaseConfig.js';
+import { defaultValidationSchema } from '../config/ValidationConfig';
+import { handleError, AppError } from '../utils/ErrorHandler';
+import { parseNameText, parseSex } from '../api/QueryParams';
+import { BabyNameExporter } from '../services/export/BabyNameExporter';
+import { EXPORT_FORMAT_NAMES, ExportFormatName } from '../services/export/ExportFormats';
+
+const SIZE_UNITS: Record<string, number> = { '': 1, B: 1, KB: 1024, MB: 1024 ** 2, GB: 1024 ** 3 };
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function integer(name: string, range: { min: number; max: number }): number | undefined {
+  const value = option(name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = parseInt(value, 10);
+  if (!/^\d+$/.test(value) || number < range.min || number > range.max) {
+    throw new AppError('INVALID_ARGUMENT', 400, `${name} must be an integer between ${range.min} and ${range.max}, got "${value}"`);
+  }
+  return number;
+}
+
+/** "500000", "512KB", "100MB", "1.5GB" */
+function size(name: string): number | undefined {
+  const value = option(name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const match = /^(\d+(?:\.\d+)?)\s*([KMG]?B)?$/i.exec(value);
+  if (!match || parseFloat(match[1]) <= 0) {
+    throw new AppError('INVALID_ARGUMENT', 400, `${name} must be a size such as 100MB, got "${value}"`);
+  }
+  return Math.ceil(parseFloat(match[1]) * SIZE_UNITS[(match[2] ?? '').toUpperCase()]);
+}
+
+(async () => {
+  try {
+    const format = option('--format') ?? 'csv';
+    if (!EXPORT_FORMAT_NAMES.includes(format as ExportFormatName)) {
+      throw new AppError('INVALID_ARGUMENT', 400, `Unknown --format "${format}" (expected ${EXPORT_FORMAT_NAMES.join(', ')})`);
+    }
+    const sex = option('--sex');
+    const prefix = option('--prefix');
+    const { min, max } = defaultValidationSchema.year;
+
+    await new BabyNameExporter().export({
+      format: format as ExportFormatName,
+      outPath: option('--out'),
+      gzip: process.argv.includes('--gzip'),
+      maxBytes: size('--split-size'),
+      sex: sex === undefined ? undefined : parseSex(sex, '--sex'),
+      yearFrom: integer('--from', { min, max }),
+      yearTo: integer('--to', { min, max }),
+      prefix: prefix === undefined ? undefined : parseNameText(prefix, '--prefix'),
+      minCount: integer('--min-count', { min: 0, max: Number.MAX_SAFE_INTEGER }),
+    });
+
+    await sequelize.close();
+    process.exit(0);
+  } catch (err) {
+    await handleError(err, 'Export', 'Export failed');
+    await sequelize.close();
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,34 @@
+// src/cli/hubspot-mock.ts
+//
+// Usage:
+//   tsx src/cli/hubspot-mock.ts [--port 4010] [--failure-rate 0.1] [--rate-limit 100]
+//
+// Then run the sync against it:
+//   HUBSPOT_API_BASE_URL=http://127.0.0.1:4010 HUBSPOT_ACCESS_TOKEN=mock-token npm run sync
+
+import { logger } from '../utils/Logger';
+import { HubSpotMockServer } from '../testing/HubSpotMockServer';
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+(async () => {
+  const rateLimit = option('--rate-limit');
+  const server = new HubSpotMockServer({
+    accessToken: process.env.HUBSPOT_ACCESS_TOKEN || 'mock-token',
+    failureRate: parseFloat(option('--failure-rate') ?? '0'),
+    rateLimitPerWindow: rateLimit ? parseInt(rateLimit, 10) : undefined,
+  });
+
+  const baseURL = await server.start(parseInt(option('--port') ?? process.env.HUBSPOT_MOCK_PORT ?? '4010', 10));
+  logger.info(`Inject faults with: curl -X POST ${baseURL}/__mock/faults -d '{"status":429,"count":3,"retryAfterSeconds":1}'`);
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+})();
@@ -0,0 +1,32 @@
+// src/cli/hubspot-schema.ts
+//
+// Usage:
+//   tsx src/cli/hubspot-schema.ts            create the baby_name custom object, or add missing properties
+//   tsx src/cli/hubspot-schema.ts --check    verify only; exit 1 if the schema is missing
+
+import { envConfig } from '../config/EnvConfig';
+import { logger } from '../utils/Logger';
+import { handleError } from '../utils/ErrorHandler';
+import { HubSpotClient } from '../clients/HubSpotClient';
+import { HubSpotSchemaService } from '../services/HubSpotSchemaService';
+
+(async () => {
+  try {
+    const client = new HubSpotClient({
+      accessToken: envConfig.hubspot.accessToken,
+      baseURL: envConfig.hubspot.apiBaseUrl,
+      maxRetries: envConfig.hubspot.maxRetries,
+    });
+    const schemas = new HubSpotSchemaService(client, envConfig.hubspot.customObjectName);
+
+    const objectTypeId = process.argv.includes('--check')
+      ? await schemas.resolveObjectType()
+      : await schemas.ensureSchema();
+
+    logger.success(`Custom object ${envConfig.hubspot.customObjectName} is ready (objectTypeId ${objectTypeId})`);
+    process.exit(0);
+  } catch (err) {
+    await handleError(err, 'HubSpotSchema', 'Custom object schema check failed');
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,176 @@
+// src/clients/HubSpotClient.ts
+
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { logger as rootLogger } from '../utils/Logger';
+import { AppError } from '../utils/ErrorHandler';
+import { TokenBucket } from '../utils/TokenBucket';
+import {
+  hubspotRateLimitedTotal,
+  hubspotRequestDuration,
+  hubspotRequestsTotal,
+  hubspotRetriesTotal,
+} from '../services/PipelineMetrics';
+
+const logger = rootLogger.child({ service: 'HubSpotClient' });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN', 'EPIPE'];
+
+export interface HubSpotClientOptions {
+  accessToken: string;
+  baseURL?: string;
+  maxRequests?: number;     // Requests allowed per interval (HubSpot default: 100)
+  intervalMs?: number;      // Rate-limit window (HubSpot default: 10s)
+  maxRetries?: number;      // Attempts after the first before giving up
+  baseDelayMs?: number;     // First backoff delay, doubled on each retry
+  maxDelayMs?: number;      // Backoff ceiling
+  timeoutMs?: number;
+}
+
+export interface HubSpotClientStats {
+  requests: number;
+  rateLimited: number;      // 429 responses received
+  retries: number;
+  failures: number;         // Requests that failed after all retries
+}
+
+export class HubSpotClient {
+  private http: AxiosInstance;
+  private bucket: TokenBucket;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private stats: HubSpotClientStats = { requests: 0, rateLimited: 0, retries: 0, failures: 0 };
+
+  constructor(options: HubSpotClientOptions) {
+    if (!options.accessToken) {
+      throw new AppError(
+        'MISSING_CONFIG',
+        400,
+        'HubSpot API key not configured in environment'
+      );
+    }
+
+    this.http = axios.create({
+      baseURL: options.baseURL ?? 'https://api.hubapi.com',
+      timeout: options.timeoutMs ?? 30000,
+      headers: {
+        'Authorization': `Bearer ${options.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+    });
+    this.bucket = new TokenBucket(options.maxRequests ?? 100, options.intervalMs ?? 10000);
+    this.maxRetries = options.maxRetries ?? 5;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+  }
+
+  getStats(): HubSpotClientStats {
+    return { ...this.stats };
+  }
+
+  async get<T = any>(url: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'GET', url });
+  }
+
+  async post<T = any>(url: string, data?: unknown, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'POST', url, data });
+  }
+
+  async request<T = any>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket.take();
+      this.stats.requests++;
+      const endTimer = hubspotRequestDuration.startTimer();
+
+      try {
+        const response = await this.http.request<T>(config);
+        endTimer();
+        hubspotRequestsTotal.inc(1, { status: String(response.status) });
+        this.respectRateLimitHeaders(response.headers);
+        return response;
+      } catch (error: any) {
+        endTimer();
+        const status: number | undefined = error.response?.status;
+        hubspotRequestsTotal.inc(1, { status: status !== undefined ? String(status) : 'network' });
+
+        if (status === 401) {
+          this.stats.failures++;
+          throw new AppError(
+            'HUBSPOT_AUTH_ERROR',
+            401,
+            'Invalid HubSpot API key'
+          );
+        }
+
+        if (status === 429) {
+          this.stats.rateLimited++;
+          hubspotRateLimitedTotal.inc();
+        }
+
+        if (!this.isRetryable(error)) {
+          this.stats.failures++;
+          throw error;
+        }
+
+        if (attempt >= this.maxRetries) {
+          this.stats.failures++;
+          throw new AppError(
+            'HUBSPOT_RETRIES_EXHAUSTED',
+            status ?? 503,
+            `HubSpot ${config.method} ${config.url} failed after ${attempt + 1} attempts: ${status ? `HTTP ${status}` : error.code}`
+          );
+        }
+
+        const delay = this.retryDelay(attempt, error.response?.headers);
+        if (status === 429) {
+          // Hold every caller, not just this one, until the window reopens
+          this.bucket.pause(delay);
+        }
+
+        this.stats.retries++;
+        hubspotRetriesTotal.inc();
+        logger.warn(
+          `HubSpot ${config.method} ${config.url} ${status ? `returned ${status}` : `failed (${error.code})`}; ` +
+          `retry ${attempt + 1}/${this.maxRetries} in ${delay}ms`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  private isRetryable(error: any): boolean {
+    const status = error.response?.status;
+    if (status !== undefined) {
+      return RETRYABLE_STATUSES.includes(status);
+    }
+    return RETRYABLE_NETWORK_CODES.includes(error.code);
+  }
+
+  /**
+   * Retry-After (seconds) wins when present; otherwise exponential backoff
+   * with full jitter, capped at maxDelayMs.
+   */
+  private retryDelay(attempt: number, headers?: Record<string, any>): number {
+    const retryAfter = parseFloat(headers?.['retry-after']);
+    if (!Number.isNaN(retryAfter) && retryAfter >= 0) {
+      return Math.min(Math.ceil(retryAfter * 1000), this.maxDelayMs);
+    }
+
+    const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    return Math.floor(Math.random() * exponential) + 1;
+  }
+
+  /** Pauses proactively when HubSpot reports the current window is used up. */
+  private respectRateLimitHeaders(headers?: Record<string, any>): void {
+    const remaining = parseInt(headers?.['x-hubspot-ratelimit-remaining'], 10);
+    const intervalMs = parseInt(headers?.['x-hubspot-ratelimit-interval-milliseconds'], 10);
+
+    if (remaining === 0 && !Number.isNaN(intervalMs)) {
+      logger.debug(`HubSpot rate-limit window exhausted, pausing ${intervalMs}ms`);
+      this.bucket.pause(intervalMs);
+    }
+  }
+}
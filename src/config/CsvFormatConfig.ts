@@ -0,0 +1,33 @@
+// src/config/CsvFormatConfig.ts
+//
+// Declares how the importer reads a delimited file into BabyName rows. The
+// default matches the Kaggle CSV; point CSV_FORMAT_FILE at a JSON file with
+// the same shape to read files with other headers, delimiters or encodings.
+
+export interface CsvColumnMapping {
+  name: string;                        // Column holding the first name
+  sex: string;                         // Column holding M/F
+  year?: string;                       // Omit when the year comes from the file name
+  count?: string;                      // Omit to import every row with count 0
+}
+
+export interface CsvFormatConfig {
+  columns: CsvColumnMapping;
+  delimiter?: string;                  // Single character, default ","; .tsv files always use tab
+  encoding?: string;                   // Any WHATWG encoding label, default "utf-8"
+  headers?: string[];                  // Column names for headerless files; omit to read the header row
+}
+
+export const defaultCsvFormat: CsvFormatConfig = {
+  columns: { name: 'Name', sex: 'Sex', year: 'YearOfBirth', count: 'Number' },
+  delimiter: ',',
+  encoding: 'utf-8',
+};
+
+/** SSA national files (yobYYYY.txt): headerless name,sex,count; the year is in the file name. */
+export const ssaYobFormat: CsvFormatConfig = {
+  columns: { name: 'name', sex: 'sex', count: 'count' },
+  delimiter: ',',
+  encoding: 'utf-8',
+  headers: ['name', 'sex', 'count'],
+};
@@ -4,26 +4,45 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
-export const sequelize = new Sequelize(
-  process.env.DB_NAME!,
-  process.env.DB_USER!,
-  process.env.DB_PASSWORD!,
-  {
-    host: process.env.DB_HOST,
-    port: parseInt(process.env.DB_PORT || '3306'),
-    dialect: 'mysql',
-    logging: process.env.NODE_ENV === 'development' ? console.log : false,
-    pool: {
-      max: 10,  // Maximum connections (production concurrent requests)
-      min: 2,   // Minimum idle connections (always available)
-      acquire: 30000,  // Timeout (ms) waiting for available connection
-      idle: 10000,  // Timeout (ms) before releasing idle connection
-    },
-  }
-);
+export type DatabaseDialect = 'mysql' | 'postgres' | 'sqlite';
+
+export const DIALECTS: DatabaseDialect[] = ['mysql', 'postgres', 'sqlite'];
+
+const DEFAULT_PORTS: Record<Exclude<DatabaseDialect, 'sqlite'>, number> = {
+  mysql: 3306,
+  postgres: 5432,
+};
+
+const dialect = (process.env.DB_DIALECT || 'mysql') as DatabaseDialect;
+const logging = process.env.NODE_ENV === 'development' ? console.log : false;
+
+export const sequelize = dialect === 'sqlite'
+  ? new Sequelize({
+      dialect: 'sqlite',
+      storage: process.env.DB_STORAGE || './baby-names.sqlite',
+      logging,
+    })
+  : new Sequelize(
+      process.env.DB_NAME!,
+      process.env.DB_USER!,
+      process.env.DB_PASSWORD!,
+      {
+        host: process.env.DB_HOST,
+        port: parseInt(process.env.DB_PORT || String(DEFAULT_PORTS[dialect])),
+        dialect,
+        logging,
+        pool: {
+          max: 10,  // Maximum connections (production concurrent requests)
+          min: 2,   // Minimum idle connections (always available)
+          acquire: 30000,  // Timeout (ms) waiting for available connection
+          idle: 10000,  // Timeout (ms) before releasing idle connection
+        },
+      }
+    );
 
 export const DatabaseConfig = {
   sequelize,
+  dialect,
 };
 
 export default sequelize;
\ No newline at end of file
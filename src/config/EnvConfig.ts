@@ -1,14 +1,17 @@
 // src/config/EnvConfig.ts
 
 import dotenv from 'dotenv';
+import { DIALECTS, DatabaseDialect } from './DatabaseConfig.js';
 
 dotenv.config();
 
 export const envConfig = {
   // Database
   db: {
+    dialect: (process.env.DB_DIALECT || 'mysql') as DatabaseDialect,
+    storage: process.env.DB_STORAGE || './baby-names.sqlite',   // SQLite only
     host: process.env.DB_HOST!,
-    port: parseInt(process.env.DB_PORT || '3306'),
+    port: parseInt(process.env.DB_PORT || (process.env.DB_DIALECT === 'postgres' ? '5432' : '3306')),
     name: process.env.DB_NAME!,
     user: process.env.DB_USER!,
     password: process.env.DB_PASSWORD!,
@@ -16,29 +19,77 @@ export const envConfig = {
   
   // Kaggle
   kaggle: {
-    email: process.env.KAGGLE_EMAIL!,
-    password: process.env.KAGGLE_PASSWORD!,
+    // Only needed for the browser strategy; the API strategy reads KAGGLE_USERNAME/KAGGLE_KEY or kaggle.json
+    email: process.env.KAGGLE_EMAIL || '',
+    password: process.env.KAGGLE_PASSWORD || '',
+    dataset: process.env.KAGGLE_DATASET || 'thedevastator/us-baby-names-by-year-of-birth',
     datasetUrl: 'https://www.kaggle.com/datasets/thedevastator/us-baby-names-by-year-of-birth?select=babyNamesUSYOB-full.csv',
+    apiBaseUrl: process.env.KAGGLE_API_BASE_URL || 'https://www.kaggle.com/api/v1',
+    downloadStrategy: (process.env.KAGGLE_DOWNLOAD_STRATEGY || 'auto') as 'api' | 'browser' | 'auto',
   },
   
+  // Data source: where the download stage gets files and the import stage reads them
+  source: {
+    type: (process.env.DATA_SOURCE || 'kaggle') as 'kaggle' | 'local' | 'http',
+    paths: (process.env.DATA_SOURCE_PATHS || '').split(',').map(s => s.trim()).filter(Boolean),
+    urls: (process.env.DATA_SOURCE_URLS || '').split(',').map(s => s.trim()).filter(Boolean),
+  },
+
   // HubSpot
    hubspot: {
     accessToken: process.env.HUBSPOT_ACCESS_TOKEN!,
-    apiBaseUrl: process.env.HUBSPOT_API_BASE_URL || 'https://api.hubapi.com/crm/v3/objects/contacts',
+    apiBaseUrl: process.env.HUBSPOT_API_BASE_URL || 'https://api.hubapi.com',
+    rateLimitMaxRequests: parseInt(process.env.HUBSPOT_RATE_LIMIT_MAX_REQUESTS || '100'),
+    rateLimitIntervalMs: parseInt(process.env.HUBSPOT_RATE_LIMIT_INTERVAL_MS || '10000'),
+    maxRetries: parseInt(process.env.HUBSPOT_MAX_RETRIES || '5'),
+    // Rows one sync run processes; the default stays within a free HubSpot account
+    syncLimit: parseInt(process.env.HUBSPOT_SYNC_LIMIT || '900'),
+    mappingFile: process.env.HUBSPOT_MAPPING_FILE || '',
+    // 'contacts' upserts contacts; 'custom_object' upserts into the custom object below
+    syncMode: (process.env.HUBSPOT_SYNC_MODE || 'contacts') as 'contacts' | 'custom_object',
+    customObjectName: process.env.HUBSPOT_CUSTOM_OBJECT_NAME || 'baby_name',
   },
   
+  // Read-only REST API (npm run api)
+  api: {
+    host: process.env.API_HOST || '0.0.0.0',
+    port: parseInt(process.env.API_PORT || '3000'),
+    defaultPageSize: parseInt(process.env.API_DEFAULT_PAGE_SIZE || '20'),
+  },
+
+  // Name analytics summary tables (npm run analytics)
+  analytics: {
+    refreshAfterImport: process.env.ANALYTICS_REFRESH_AFTER_IMPORT !== 'false',
+  },
+
+  // Pipeline metrics: a JSON report per run, and optionally a Prometheus /metrics endpoint while it runs
+  metrics: {
+    port: parseInt(process.env.METRICS_PORT || '0'),       // 0: no endpoint
+    host: process.env.METRICS_HOST || '127.0.0.1',
+    reportDir: process.env.RUN_REPORT_DIR || './reports',
+  },
+
   // App
   app: {
     nodeEnv: process.env.NODE_ENV || 'development',
     downloadDir: process.env.DOWNLOAD_DIR || './downloads',
+    exportDir: process.env.EXPORT_DIR || './exports',
     batchSize: parseInt(process.env.BATCH_SIZE || '1000'),
+    csvFormatFile: process.env.CSV_FORMAT_FILE || '',
+    rejectsFile: process.env.IMPORT_REJECTS_FILE || './rejects.csv',
+    maxRejectRate: parseFloat(process.env.IMPORT_MAX_REJECT_RATE || '0.01'),
+    bulkLoad: process.env.IMPORT_BULK_LOAD === 'true',
+    pipelineStateFile: process.env.PIPELINE_STATE_FILE || './.pipeline-state.json',
   },
 };
 
-// Validate required env variables
+if (!DIALECTS.includes(envConfig.db.dialect)) {
+  throw new Error(`Invalid DB_DIALECT "${envConfig.db.dialect}" (expected ${DIALECTS.join(', ')})`);
+}
+
+// Validate required env variables; SQLite only needs DB_STORAGE, which has a default
 const requiredEnvVars = [
-  'DB_HOST', 'DB_NAME', 'DB_USER', 'DB_PASSWORD',
-  'KAGGLE_EMAIL', 'KAGGLE_PASSWORD',
+  ...(envConfig.db.dialect === 'sqlite' ? [] : ['DB_HOST', 'DB_NAME', 'DB_USER', 'DB_PASSWORD']),
   'HUBSPOT_ACCESS_TOKEN'
 ];
 
@@ -46,4 +97,32 @@ requiredEnvVars.forEach(envVar => {
   if (!process.env[envVar]) {
     throw new Error(`Missing required environment variable: ${envVar}`);
   }
-});
\ No newline at end of file
+});
+
+if (!['api', 'browser', 'auto'].includes(envConfig.kaggle.downloadStrategy)) {
+  throw new Error(`Invalid KAGGLE_DOWNLOAD_STRATEGY "${envConfig.kaggle.downloadStrategy}" (expected api, browser or auto)`);
+}
+
+if (!['kaggle', 'local', 'http'].includes(envConfig.source.type)) {
+  throw new Error(`Invalid DATA_SOURCE "${envConfig.source.type}" (expected kaggle, local or http)`);
+}
+
+if (Number.isNaN(envConfig.app.maxRejectRate) || envConfig.app.maxRejectRate < 0 || envConfig.app.maxRejectRate > 1) {
+  throw new Error(`Invalid IMPORT_MAX_REJECT_RATE "${process.env.IMPORT_MAX_REJECT_RATE}" (expected a fraction between 0 and 1)`);
+}
+
+if (!Number.isInteger(envConfig.hubspot.syncLimit) || envConfig.hubspot.syncLimit < 1) {
+  throw new Error(`Invalid HUBSPOT_SYNC_LIMIT "${process.env.HUBSPOT_SYNC_LIMIT}" (expected a positive integer)`);
+}
+
+if (!['contacts', 'custom_object'].includes(envConfig.hubspot.syncMode)) {
+  throw new Error(`Invalid HUBSPOT_SYNC_MODE "${envConfig.hubspot.syncMode}" (expected contacts or custom_object)`);
+}
+
+if (!Number.isInteger(envConfig.api.defaultPageSize) || envConfig.api.defaultPageSize < 1 || envConfig.api.defaultPageSize > 100) {
+  throw new Error(`Invalid API_DEFAULT_PAGE_SIZE "${process.env.API_DEFAULT_PAGE_SIZE}" (expected 1-100)`);
+}
+
+if (!Number.isInteger(envConfig.metrics.port) || envConfig.metrics.port < 0 || envConfig.metrics.port > 65535) {
+  throw new Error(`Invalid METRICS_PORT "${process.env.METRICS_PORT}" (expected 0-65535, 0 to disable)`);
+}
@@ -0,0 +1,75 @@
+// src/config/HubSpotMappingConfig.ts
+//
+// Declares how a BabyName row becomes HubSpot properties. The contact default
+// reproduces the original contact format; point HUBSPOT_MAPPING_FILE at a JSON
+// file with the same shape to use a different one.
+
+/** Named transforms, applied left to right: `{{name | lower | dotted}}` */
+export type TransformName = 'trim' | 'lower' | 'upper' | 'dotted' | 'slug' | 'string';
+
+export interface SourcePropertyMapping {
+  source: string;                      // BabyName attribute, e.g. "name"
+  transforms?: TransformName[];
+  map?: Record<string, string>;        // Lookup applied after transforms, e.g. { "M": "Male" }
+  default?: string | number | boolean; // Used when the source value is null/empty
+}
+
+export interface TemplatePropertyMapping {
+  template: string;                    // "{{name | lower | dotted}}.{{sex | lower}}@example.com"
+}
+
+export interface ConstantPropertyMapping {
+  value: string | number | boolean;
+}
+
+export type PropertyMapping =
+  | SourcePropertyMapping
+  | TemplatePropertyMapping
+  | ConstantPropertyMapping;
+
+/** A property that the pre-flight check creates through the Properties API if missing. */
+export interface CustomPropertyDefinition {
+  name: string;
+  label: string;
+  type: 'string' | 'number' | 'date' | 'datetime' | 'enumeration' | 'bool';
+  fieldType: 'text' | 'textarea' | 'number' | 'date' | 'select' | 'radio' | 'booleancheckbox';
+  groupName: string;
+  description?: string;
+  hasUniqueValue?: boolean;
+  options?: { label: string; value: string }[];
+}
+
+export interface HubSpotMappingConfig {
+  idProperty: string;                  // Property used as the upsert identity
+  properties: Record<string, PropertyMapping>;
+  customProperties?: CustomPropertyDefinition[];
+}
+
+export const defaultContactMapping: HubSpotMappingConfig = {
+  idProperty: 'email',
+  properties: {
+    email: { template: '{{name | lower | dotted}}.{{sex | lower}}@babynamesdemo.com' },
+    firstname: { source: 'name' },
+    lastname: { source: 'sex', map: { M: 'Male', F: 'Female' } },
+    hs_lead_status: { value: 'NEW' },
+    lifecyclestage: { value: 'subscriber' },
+  },
+  customProperties: [],
+};
+
+/** Used in custom-object mode; properties match the schema in HubSpotSchemaService. */
+export const defaultCustomObjectMapping: HubSpotMappingConfig = {
+  idProperty: 'baby_name_key',
+  properties: {
+    baby_name_key: { template: '{{name | lower | dotted}}.{{sex | lower}}.{{year}}' },
+    name: { source: 'name' },
+    sex: { source: 'sex' },
+    year: { source: 'year' },
+    count: { source: 'count' },
+  },
+  customProperties: [],
+};
+
+export function defaultMappingFor(mode: 'contacts' | 'custom_object'): HubSpotMappingConfig {
+  return mode === 'custom_object' ? defaultCustomObjectMapping : defaultContactMapping;
+}
@@ -0,0 +1,39 @@
+// src/config/ValidationConfig.ts
+//
+// Rules every imported row must pass before it reaches the database. Rows
+// that fail are written to the rejects report instead of being inserted.
+
+export interface BabyNameValidationSchema {
+  sexCodes: Record<string, 'M' | 'F'>;  // Accepted values (compared upper-cased) and what they store as
+  name: {
+    minLength: number;
+    maxLength: number;
+    pattern: RegExp;                    // Checked after NFC normalisation and trimming
+  };
+  year: {
+    min: number;
+    max: number;
+    required: boolean;                  // False allows rows without a year column
+  };
+  count: {
+    min: number;
+  };
+}
+
+export const defaultValidationSchema: BabyNameValidationSchema = {
+  sexCodes: { M: 'M', MALE: 'M', F: 'F', FEMALE: 'F' },
+  name: {
+    minLength: 1,
+    maxLength: 64,
+    // Letters (any script) with inner apostrophes, hyphens, spaces or periods: "O'Neil", "Mary-Jo"
+    pattern: /^\p{L}[\p{L}\p{M}]*(?:['’\-. ][\p{L}\p{M}]+)*\.?$/u,
+  },
+  year: {
+    min: 1880,                          // First year of SSA records
+    max: new Date().getFullYear(),
+    required: false,
+  },
+  count: {
+    min: 0,
+  },
+};
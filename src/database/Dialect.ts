@@ -0,0 +1,39 @@
+// src/database/Dialect.ts
+
+import { Op } from 'sequelize';
+import { sequelize } from '../config/DatabaseConfig.js';
+import type { DatabaseDialect } from '../config/DatabaseConfig.js';
+
+/**
+ * Dialect differences outside the migrations. The few spots that still need
+ * raw SQL build it from these, so the same statement runs on MySQL,
+ * PostgreSQL and SQLite.
+ */
+export const dialect = (): DatabaseDialect => sequelize.getDialect() as DatabaseDialect;
+
+/** `name` quoted for the current dialect: backticks on MySQL, double quotes elsewhere. */
+export const quote = (identifier: string): string =>
+  sequelize.getQueryInterface().quoteIdentifier(identifier, true);
+
+/** `a = b` that also holds when both sides are NULL. */
+export const nullSafeEquals = (a: string, b: string): string => {
+  switch (dialect()) {
+    case 'mysql':
+      return `${a} <=> ${b}`;
+    case 'postgres':
+      return `${a} IS NOT DISTINCT FROM ${b}`;
+    default:
+      return `${a} IS ${b}`;
+  }
+};
+
+/**
+ * Whether the database treats names that differ only in case or accents
+ * as equal. MySQL's utf8mb4_unicode_ci collation does; PostgreSQL and
+ * SQLite compare them byte for byte.
+ */
+export const foldsNameCase = (): boolean => dialect() === 'mysql';
+
+/** LIKE that ignores case on every dialect (PostgreSQL needs ILIKE; SQLite folds ASCII only). */
+export const caseInsensitiveLike = (): typeof Op.like | typeof Op.iLike =>
+  dialect() === 'postgres' ? Op.iLike : Op.like;
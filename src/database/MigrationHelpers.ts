@@ -0,0 +1,104 @@
+// src/database/MigrationHelpers.ts
+//
+// Existence checks and column changes shared by the migrations. Each takes
+// the migration's transaction, so on PostgreSQL and SQLite they see (and
+// roll back with) the DDL that ran before them.
+
+import { Logging, ModelAttributeColumnOptions, QueryInterface, Transaction } from 'sequelize';
+
+// describeTable's declared options omit `transaction`, which it passes on to the query
+type DescribeTableOptions = { schema?: string } & Logging & { transaction?: Transaction };
+
+// MySQL's query generator appends AFTER <column> when the definition carries `after`
+type MySqlColumnOptions = ModelAttributeColumnOptions & { after?: string };
+
+export async function columnExists(
+  queryInterface: QueryInterface,
+  table: string,
+  column: string,
+  transaction?: Transaction
+): Promise<boolean> {
+  const options: DescribeTableOptions = { transaction };
+  const columns = await queryInterface.describeTable(table, options);
+  return column in columns;
+}
+
+export async function indexExists(
+  queryInterface: QueryInterface,
+  table: string,
+  index: string,
+  transaction?: Transaction
+): Promise<boolean> {
+  const indexes = await queryInterface.showIndex(table, { transaction }) as { name: string }[];
+  return indexes.some(i => i.name === index);
+}
+
+/** Adds `column` unless it exists; `after` places it on MySQL and is ignored elsewhere. */
+export async function addColumn(
+  queryInterface: QueryInterface,
+  table: string,
+  column: string,
+  attributes: ModelAttributeColumnOptions,
+  options: { after?: string; transaction?: Transaction } = {}
+): Promise<void> {
+  const { after, transaction } = options;
+  if (await columnExists(queryInterface, table, column, transaction)) {
+    return;
+  }
+
+  let definition: MySqlColumnOptions = attributes;
+  if (after && queryInterface.sequelize.getDialect() === 'mysql') {
+    definition = { ...attributes, after };
+  }
+  await queryInterface.addColumn(table, column, definition, { transaction });
+}
+
+/**
+ * Drops `column` if it exists. Sequelize drops a SQLite column by rebuilding
+ * the table, which turns composite unique indexes into per-column ones;
+ * SQLite 3.35+ can drop it in place.
+ */
+export async function removeColumn(
+  queryInterface: QueryInterface,
+  table: string,
+  column: string,
+  transaction?: Transaction
+): Promise<void> {
+  if (!(await columnExists(queryInterface, table, column, transaction))) {
+    return;
+  }
+
+  if (queryInterface.sequelize.getDialect() === 'sqlite') {
+    await queryInterface.sequelize.query(
+      `ALTER TABLE ${queryInterface.quoteIdentifier(table)} DROP COLUMN ${queryInterface.quoteIdentifier(column)}`,
+      { transaction }
+    );
+    return;
+  }
+  await queryInterface.removeColumn(table, column, { transaction });
+}
+
+/** Adds the index unless one with that name exists. */
+export async function addIndex(
+  queryInterface: QueryInterface,
+  table: string,
+  fields: string[],
+  options: { name: string; unique?: boolean; transaction?: Transaction }
+): Promise<void> {
+  const { name, unique = false, transaction } = options;
+  if (!(await indexExists(queryInterface, table, name, transaction))) {
+    await queryInterface.addIndex(table, fields, { name, unique, transaction });
+  }
+}
+
+/** Removes the index if it exists. */
+export async function removeIndex(
+  queryInterface: QueryInterface,
+  table: string,
+  name: string,
+  transaction?: Transaction
+): Promise<void> {
+  if (await indexExists(queryInterface, table, name, transaction)) {
+    await queryInterface.removeIndex(table, name, { transaction });
+  }
+}
@@ -0,0 +1,219 @@
+// src/database/MigrationRunner.ts
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { DataTypes, QueryInterface, Sequelize, Transaction, literal } from 'sequelize';
+import { sequelize as defaultSequelize } from '../config/DatabaseConfig.js';
+import { logger as rootLogger } from '../utils/Logger';
+import { AppError } from '../utils/ErrorHandler';
+
+const logger = rootLogger.child({ service: 'Migrations' });
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export interface MigrationContext {
+  sequelize: Sequelize;
+  queryInterface: QueryInterface;
+  transaction?: Transaction;
+}
+
+/**
+ * Shape of a module in src/database/migrations/. Migrations go through
+ * the query interface so they run on every supported dialect, and pass the
+ * context's transaction to every call. The runner opens one on PostgreSQL
+ * and SQLite, where DDL rolls back; MySQL commits implicitly on most DDL,
+ * so there it runs without one. `transactional` overrides that choice.
+ */
+export interface MigrationModule {
+  up(context: MigrationContext): Promise<void>;
+  down(context: MigrationContext): Promise<void>;
+  transactional?: boolean;
+}
+
+export interface MigrationStatus {
+  name: string;
+  appliedAt: Date | null;
+}
+
+interface MigrationFile {
+  name: string;
+  filePath: string;
+}
+
+const TRACKING_TABLE = 'SchemaMigrations';
+const MIGRATION_FILE_PATTERN = /^(\d+)-[\w-]+\.(ts|js)$/;
+
+export class MigrationRunner {
+  private sequelize: Sequelize;
+  private migrationsDir: string;
+
+  constructor(
+    sequelize: Sequelize = defaultSequelize,
+    migrationsDir: string = path.join(__dirname, 'migrations')
+  ) {
+    this.sequelize = sequelize;
+    this.migrationsDir = migrationsDir;
+  }
+
+  private async ensureTrackingTable(): Promise<void> {
+    // createTable is CREATE TABLE IF NOT EXISTS on every dialect
+    await this.sequelize.getQueryInterface().createTable(
+      TRACKING_TABLE,
+      {
+        name: { type: DataTypes.STRING(255), allowNull: false, primaryKey: true },
+        appliedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: literal('CURRENT_TIMESTAMP') },
+      },
+      { charset: 'utf8mb4', collate: 'utf8mb4_unicode_ci', logging: false }
+    );
+  }
+
+  private discover(): MigrationFile[] {
+    if (!fs.existsSync(this.migrationsDir)) {
+      throw new AppError(
+        'MIGRATIONS_NOT_FOUND',
+        404,
+        `Migrations directory not found: ${this.migrationsDir}`
+      );
+    }
+
+    const files = fs.readdirSync(this.migrationsDir)
+      .filter(f => MIGRATION_FILE_PATTERN.test(f) && !f.endsWith('.d.ts'))
+      .sort();
+
+    const seen = new Set<string>();
+    return files.map(file => {
+      const name = file.replace(/\.(ts|js)$/, '');
+      if (seen.has(name)) {
+        throw new AppError(
+          'DUPLICATE_MIGRATION',
+          409,
+          `Migration ${name} exists more than once in ${this.migrationsDir}`
+        );
+      }
+      seen.add(name);
+      return { name, filePath: path.join(this.migrationsDir, file) };
+    });
+  }
+
+  private async load(file: MigrationFile): Promise<MigrationModule> {
+    const mod = await import(pathToFileURL(file.filePath).href);
+
+    if (typeof mod.up !== 'function' || typeof mod.down !== 'function') {
+      throw new AppError(
+        'INVALID_MIGRATION',
+        400,
+        `Migration ${file.name} must export up() and down()`
+      );
+    }
+
+    return mod as MigrationModule;
+  }
+
+  private async getApplied(): Promise<Map<string, Date>> {
+    const rows = await this.sequelize.getQueryInterface().select(null, TRACKING_TABLE, {
+      logging: false,
+    }) as { name: string; appliedAt: Date }[];
+    rows.sort((a, b) => a.name.localeCompare(b.name));
+    return new Map(rows.map(row => [row.name, new Date(row.appliedAt)]));
+  }
+
+  private async run(
+    file: MigrationFile,
+    direction: 'up' | 'down'
+  ): Promise<void> {
+    const migration = await this.load(file);
+    const queryInterface = this.sequelize.getQueryInterface();
+
+    const record = async (transaction?: Transaction) => {
+      if (direction === 'up') {
+        await queryInterface.bulkInsert(
+          TRACKING_TABLE,
+          [{ name: file.name, appliedAt: new Date() }],
+          { transaction, logging: false }
+        );
+      } else {
+        await queryInterface.bulkDelete(TRACKING_TABLE, { name: file.name }, { transaction, logging: false });
+      }
+    };
+
+    const transactional = migration.transactional ?? this.sequelize.getDialect() !== 'mysql';
+    if (!transactional) {
+      await migration[direction]({ sequelize: this.sequelize, queryInterface });
+      await record();
+      return;
+    }
+
+    await this.sequelize.transaction(async (transaction) => {
+      await migration[direction]({ sequelize: this.sequelize, queryInterface, transaction });
+      await record(transaction);
+    });
+  }
+
+  async up(): Promise<string[]> {
+    await this.ensureTrackingTable();
+    const applied = await this.getApplied();
+    const pending = this.discover().filter(file => !applied.has(file.name));
+
+    if (pending.length === 0) {
+      logger.info('No pending migrations');
+      return [];
+    }
+
+    const ran: string[] = [];
+    for (const file of pending) {
+      logger.info(`Applying migration: ${file.name}`);
+      await this.run(file, 'up');
+      logger.success(`Applied: ${file.name}`);
+      ran.push(file.name);
+    }
+    return ran;
+  }
+
+  async down(steps: number = 1): Promise<string[]> {
+    await this.ensureTrackingTable();
+    const applied = await this.getApplied();
+    const files = new Map(this.discover().map(file => [file.name, file]));
+
+    const toRevert = [...applied.keys()].sort().reverse().slice(0, steps);
+    if (toRevert.length === 0) {
+      logger.info('No migrations to roll back');
+      return [];
+    }
+
+    const reverted: string[] = [];
+    for (const name of toRevert) {
+      const file = files.get(name);
+      if (!file) {
+        throw new AppError(
+          'MIGRATION_FILE_MISSING',
+          404,
+          `Applied migration ${name} has no file in ${this.migrationsDir}`
+        );
+      }
+
+      logger.info(`Rolling back migration: ${name}`);
+      await this.run(file, 'down');
+      logger.success(`Rolled back: ${name}`);
+      reverted.push(name);
+    }
+    return reverted;
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    await this.ensureTrackingTable();
+    const applied = await this.getApplied();
+    const known = this.discover().map(file => ({
+      name: file.name,
+      appliedAt: applied.get(file.name) ?? null,
+    }));
+
+    // Applied migrations whose files were deleted still show up
+    const orphaned = [...applied.entries()]
+      .filter(([name]) => !known.some(m => m.name === name))
+      .map(([name, appliedAt]) => ({ name, appliedAt }));
+
+    return [...known, ...orphaned].sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
@@ -0,0 +1,65 @@
+// src/database/migrate.ts
+//
+// Usage:
+//   tsx src/database/migrate.ts up          apply all pending migrations
+//   tsx src/database/migrate.ts down [n]    roll back the last n (default 1)
+//   tsx src/database/migrate.ts status      list applied / pending migrations
+
+import { sequelize } from '../config/DatabaseConfig.js';
+import { MigrationRunner } from './MigrationRunner';
+import { logger } from '../utils/Logger';
+import { handleError, AppError } from '../utils/ErrorHandler';
+
+async function main(args: string[]): Promise<void> {
+  const [command = 'up', arg] = args;
+  const runner = new MigrationRunner();
+
+  await sequelize.authenticate();
+  logger.success('Database connected');
+
+  switch (command) {
+    case 'up': {
+      const ran = await runner.up();
+      logger.success(`Migrations complete (${ran.length} applied)`);
+      break;
+    }
+
+    case 'down': {
+      const steps = arg === undefined ? 1 : parseInt(arg, 10);
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new AppError('INVALID_ARGUMENT', 400, `Invalid rollback count: ${arg}`);
+      }
+      const reverted = await runner.down(steps);
+      logger.success(`Rollback complete (${reverted.length} reverted)`);
+      break;
+    }
+
+    case 'status': {
+      const migrations = await runner.status();
+      for (const m of migrations) {
+        const state = m.appliedAt ? `applied ${new Date(m.appliedAt).toISOString()}` : 'pending';
+        logger.info(`${m.name.padEnd(40)} ${state}`);
+      }
+      break;
+    }
+
+    default:
+      throw new AppError(
+        'UNKNOWN_COMMAND',
+        400,
+        `Unknown migrate command "${command}" (expected up, down [n] or status)`
+      );
+  }
+}
+
+(async () => {
+  try {
+    await main(process.argv.slice(2));
+    await sequelize.close();
+    process.exit(0);
+  } catch (err) {
+    await handleError(err, 'Migrate', 'Migration command failed');
+    await sequelize.close();
+    process.exit(1);
+  }
+})();
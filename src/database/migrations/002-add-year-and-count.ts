@@ -0,0 +1,61 @@
+// src/database/migrations/002-add-year-and-count.ts
+
+import { DataTypes } from 'sequelize';
+import type { MigrationContext } from '../MigrationRunner';
+import { addColumn, addIndex, removeColumn, removeIndex } from '../MigrationHelpers';
+import { logger as rootLogger } from '../../utils/Logger';
+
+const logger = rootLogger.child({ service: 'Migrations' });
+
+export async function up({ queryInterface, transaction }: MigrationContext) {
+  try {
+    logger.info('Running migration: 002-add-year-and-count');
+
+    // Year is nullable so rows imported before this migration stay valid; `after` only applies to MySQL
+    await addColumn(
+      queryInterface,
+      'BabyNames',
+      'year',
+      { type: DataTypes.SMALLINT.UNSIGNED, allowNull: true },
+      { after: 'sex', transaction }
+    );
+    await addColumn(
+      queryInterface,
+      'BabyNames',
+      'count',
+      { type: DataTypes.INTEGER.UNSIGNED, allowNull: false, defaultValue: 0 },
+      { after: 'year', transaction }
+    );
+
+    // NULL years never collide, so legacy rows don't block the unique key
+    await addIndex(queryInterface, 'BabyNames', ['name', 'sex', 'year'], {
+      name: 'uq_baby_names_name_sex_year',
+      unique: true,
+      transaction,
+    });
+    await addIndex(queryInterface, 'BabyNames', ['year'], { name: 'idx_baby_names_year', transaction });
+
+    logger.success('Migration completed: year and count columns added');
+  } catch (error) {
+    logger.error('Migration failed', error);
+    throw error;
+  }
+}
+
+export async function down({ queryInterface, transaction }: MigrationContext) {
+  try {
+    logger.info('Rolling back migration: 002-add-year-and-count');
+
+    for (const index of ['idx_baby_names_year', 'uq_baby_names_name_sex_year']) {
+      await removeIndex(queryInterface, 'BabyNames', index, transaction);
+    }
+    for (const column of ['count', 'year']) {
+      await removeColumn(queryInterface, 'BabyNames', column, transaction);
+    }
+
+    logger.success('Migration rollback completed');
+  } catch (error) {
+    logger.error('Migration rollback failed', error);
+    throw error;
+  }
+}
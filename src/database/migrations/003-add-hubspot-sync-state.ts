@@ -0,0 +1,44 @@
+// src/database/migrations/003-add-hubspot-sync-state.ts
+
+import { DataTypes } from 'sequelize';
+import type { MigrationContext } from '../MigrationRunner';
+import { addColumn, addIndex, removeColumn, removeIndex } from '../MigrationHelpers';
+import { logger as rootLogger } from '../../utils/Logger';
+
+const logger = rootLogger.child({ service: 'Migrations' });
+
+export async function up({ queryInterface, transaction }: MigrationContext) {
+  try {
+    logger.info('Running migration: 003-add-hubspot-sync-state');
+
+    await addColumn(queryInterface, 'BabyNames', 'hubspotId', { type: DataTypes.STRING(64), allowNull: true }, { transaction });
+
+    // SHA-256 hex of the properties last sent to HubSpot
+    await addColumn(queryInterface, 'BabyNames', 'syncHash', { type: DataTypes.CHAR(64), allowNull: true }, { transaction });
+
+    await addColumn(queryInterface, 'BabyNames', 'syncedAt', { type: DataTypes.DATE, allowNull: true }, { transaction });
+
+    await addIndex(queryInterface, 'BabyNames', ['syncedAt'], { name: 'idx_baby_names_synced_at', transaction });
+
+    logger.success('Migration completed: HubSpot sync state columns added');
+  } catch (error) {
+    logger.error('Migration failed', error);
+    throw error;
+  }
+}
+
+export async function down({ queryInterface, transaction }: MigrationContext) {
+  try {
+    logger.info('Rolling back migration: 003-add-hubspot-sync-state');
+
+    await removeIndex(queryInterface, 'BabyNames', 'idx_baby_names_synced_at', transaction);
+    for (const column of ['syncedAt', 'syncHash', 'hubspotId']) {
+      await removeColumn(queryInterface, 'BabyNames', column, transaction);
+    }
+
+    logger.success('Migration rollback completed');
+  } catch (error) {
+    logger.error('Migration rollback failed', error);
+    throw error;
+  }
+}
@@ -0,0 +1,62 @@
+// src/database/migrations/004-create-sync-failures.ts
+
+import { DataTypes, literal } from 'sequelize';
+import type { MigrationContext } from '../MigrationRunner';
+import { addIndex } from '../MigrationHelpers';
+import { logger as rootLogger } from '../../utils/Logger';
+
+const logger = rootLogger.child({ service: 'Migrations' });
+
+export async function up({ queryInterface, transaction }: MigrationContext) {
+  try {
+    logger.info('Running migration: 004-create-sync-failures');
+
+    // One row per BabyName that HubSpot rejected; resolvedAt is set once a retry succeeds
+    await queryInterface.createTable(
+      'SyncFailures',
+      {
+        id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+        babyNameId: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          references: { model: 'BabyNames', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        payload: { type: DataTypes.JSON, allowNull: false },
+        errorStatus: { type: DataTypes.SMALLINT, allowNull: true },
+        errorMessage: { type: DataTypes.TEXT, allowNull: true },
+        errorPayload: { type: DataTypes.JSON, allowNull: true },
+        attempts: { type: DataTypes.INTEGER.UNSIGNED, allowNull: false, defaultValue: 1 },
+        resolvedAt: { type: DataTypes.DATE, allowNull: true },
+        createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: literal('CURRENT_TIMESTAMP') },
+        updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: literal('CURRENT_TIMESTAMP') },
+      },
+      { charset: 'utf8mb4', collate: 'utf8mb4_unicode_ci', transaction }
+    );
+
+    await addIndex(queryInterface, 'SyncFailures', ['babyNameId'], {
+      name: 'uq_sync_failures_baby_name_id',
+      unique: true,
+      transaction,
+    });
+    await addIndex(queryInterface, 'SyncFailures', ['resolvedAt'], { name: 'idx_sync_failures_resolved_at', transaction });
+
+    logger.success('Migration completed: SyncFailures table created');
+  } catch (error) {
+    logger.error('Migration failed', error);
+    throw error;
+  }
+}
+
+export async function down({ queryInterface, transaction }: MigrationContext) {
+  try {
+    logger.info('Rolling back migration: 004-create-sync-failures');
+
+    await queryInterface.dropTable('SyncFailures', { transaction });
+
+    logger.success('Migration rollback completed');
+  } catch (error) {
+    logger.error('Migration rollback failed', error);
+    throw error;
+  }
+}
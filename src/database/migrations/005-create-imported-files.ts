@@ -0,0 +1,49 @@
+// src/database/migrations/005-create-imported-files.ts
+
+import { DataTypes, literal } from 'sequelize';
+import type { MigrationContext } from '../MigrationRunner';
+import { addIndex } from '../MigrationHelpers';
+import { logger as rootLogger } from '../../utils/Logger';
+
+const logger = rootLogger.child({ service: 'Migrations' });
+
+export async function up({ queryInterface, transaction }: MigrationContext) {
+  try {
+    logger.info('Running migration: 005-create-imported-files');
+
+    // One row per source file (by SHA-256) that has been fully imported
+    await queryInterface.createTable(
+      'ImportedFiles',
+      {
+        id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+        sha256: { type: DataTypes.CHAR(64), allowNull: false },
+        fileName: { type: DataTypes.STRING(255), allowNull: false },
+        size: { type: DataTypes.BIGINT.UNSIGNED, allowNull: false },
+        rowCount: { type: DataTypes.INTEGER.UNSIGNED, allowNull: false, defaultValue: 0 },
+        createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: literal('CURRENT_TIMESTAMP') },
+        updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: literal('CURRENT_TIMESTAMP') },
+      },
+      { charset: 'utf8mb4', collate: 'utf8mb4_unicode_ci', transaction }
+    );
+
+    await addIndex(queryInterface, 'ImportedFiles', ['sha256'], { name: 'uq_imported_files_sha256', unique: true, transaction });
+
+    logger.success('Migration completed: ImportedFiles table created');
+  } catch (error) {
+    logger.error('Migration failed', error);
+    throw error;
+  }
+}
+
+export async function down({ queryInterface, transaction }: MigrationContext) {
+  try {
+    logger.info('Rolling back migration: 005-create-imported-files');
+
+    await queryInterface.dropTable('ImportedFiles', { transaction });
+
+    logger.success('Migration rollback completed');
+  } catch (error) {
+    logger.error('Migration rollback failed', error);
+    throw error;
+  }
+}
@@ -0,0 +1,41 @@
+// src/database/migrations/006-add-imported-file-archive.ts
+
+import { DataTypes } from 'sequelize';
+import type { MigrationContext } from '../MigrationRunner';
+import { addColumn, removeColumn } from '../MigrationHelpers';
+import { logger as rootLogger } from '../../utils/Logger';
+
+const logger = rootLogger.child({ service: 'Migrations' });
+
+export async function up({ queryInterface, transaction }: MigrationContext) {
+  try {
+    logger.info('Running migration: 006-add-imported-file-archive');
+
+    // ZIP/gzip file an entry was streamed from; NULL for plain files
+    await addColumn(
+      queryInterface,
+      'ImportedFiles',
+      'archiveName',
+      { type: DataTypes.STRING(255), allowNull: true },
+      { after: 'fileName', transaction }
+    );
+
+    logger.success('Migration completed: archiveName column added to ImportedFiles');
+  } catch (error) {
+    logger.error('Migration failed', error);
+    throw error;
+  }
+}
+
+export async function down({ queryInterface, transaction }: MigrationContext) {
+  try {
+    logger.info('Rolling back migration: 006-add-imported-file-archive');
+
+    await removeColumn(queryInterface, 'ImportedFiles', 'archiveName', transaction);
+
+    logger.success('Migration rollback completed');
+  } catch (error) {
+    logger.error('Migration rollback failed', error);
+    throw error;
+  }
+}
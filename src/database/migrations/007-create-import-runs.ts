@@ -0,0 +1,59 @@
+// src/database/migrations/007-create-import-runs.ts
+
+import { DataTypes, literal } from 'sequelize';
+import type { MigrationContext } from '../MigrationRunner';
+import { addIndex } from '../MigrationHelpers';
+import { logger as rootLogger } from '../../utils/Logger';
+
+const logger = rootLogger.child({ service: 'Migrations' });
+
+export async function up({ queryInterface, transaction }: MigrationContext) {
+  try {
+    logger.info('Running migration: 007-create-import-runs');
+
+    // One row per attempt at importing a file; rowOffset is committed with each batch
+    await queryInterface.createTable(
+      'ImportRuns',
+      {
+        id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+        sha256: { type: DataTypes.CHAR(64), allowNull: false },
+        fileName: { type: DataTypes.STRING(255), allowNull: false },
+        archiveName: { type: DataTypes.STRING(255), allowNull: true },
+        mode: { type: DataTypes.ENUM('batch', 'bulk'), allowNull: false, defaultValue: 'batch' },
+        status: { type: DataTypes.ENUM('running', 'completed', 'failed'), allowNull: false, defaultValue: 'running' },
+        rowOffset: { type: DataTypes.INTEGER.UNSIGNED, allowNull: false, defaultValue: 0 },
+        byteOffset: { type: DataTypes.BIGINT.UNSIGNED, allowNull: false, defaultValue: 0 },
+        accepted: { type: DataTypes.INTEGER.UNSIGNED, allowNull: false, defaultValue: 0 },
+        rejected: { type: DataTypes.INTEGER.UNSIGNED, allowNull: false, defaultValue: 0 },
+        inserted: { type: DataTypes.INTEGER.UNSIGNED, allowNull: false, defaultValue: 0 },
+        updated: { type: DataTypes.INTEGER.UNSIGNED, allowNull: false, defaultValue: 0 },
+        unchanged: { type: DataTypes.INTEGER.UNSIGNED, allowNull: false, defaultValue: 0 },
+        errorMessage: { type: DataTypes.TEXT, allowNull: true },
+        finishedAt: { type: DataTypes.DATE, allowNull: true },
+        createdAt: { type: DataTypes.DATE, allowNull: false, defaultValue: literal('CURRENT_TIMESTAMP') },
+        updatedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: literal('CURRENT_TIMESTAMP') },
+      },
+      { charset: 'utf8mb4', collate: 'utf8mb4_unicode_ci', transaction }
+    );
+
+    await addIndex(queryInterface, 'ImportRuns', ['sha256', 'status'], { name: 'idx_import_runs_sha256_status', transaction });
+
+    logger.success('Migration completed: ImportRuns table created');
+  } catch (error) {
+    logger.error('Migration failed', error);
+    throw error;
+  }
+}
+
+export async function down({ queryInterface, transaction }: MigrationContext) {
+  try {
+    logger.info('Rolling back migration: 007-create-import-runs');
+
+    await queryInterface.dropTable('ImportRuns', { transaction });
+
+    logger.success('Migration rollback completed');
+  } catch (error) {
+    logger.error('Migration rollback failed', error);
+    throw error;
+  }
+}
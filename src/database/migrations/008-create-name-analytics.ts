@@ -0,0 +1,89 @@
+// src/database/migrations/008-create-name-analytics.ts
+
+import { DataTypes } from 'sequelize';
+import type { MigrationContext } from '../MigrationRunner';
+import { addIndex } from '../MigrationHelpers';
+import { logger as rootLogger } from '../../utils/Logger';
+
+const logger = rootLogger.child({ service: 'Migrations' });
+
+// Rebuilt from BabyNames by NameAnalyticsService.refresh(); safe to drop and recreate
+const TABLES = ['NameGenderSplits', 'NameSummaries', 'NameDecadeStats', 'NameYearStats'];
+
+export async function up({ queryInterface, transaction }: MigrationContext) {
+  try {
+    logger.info('Running migration: 008-create-name-analytics');
+
+    const tableOptions = { charset: 'utf8mb4', collate: 'utf8mb4_unicode_ci', transaction };
+    const id = { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true };
+    const name = { type: DataTypes.STRING(255), allowNull: false };
+    const sex = { type: DataTypes.ENUM('M', 'F'), allowNull: false };
+    const count = { type: DataTypes.INTEGER.UNSIGNED, allowNull: false, defaultValue: 0 };
+    const share = { type: DataTypes.DOUBLE, allowNull: false, defaultValue: 0 };
+
+    // One row per (name, sex, year): rank among that year's names of the same sex, and share of its births
+    await queryInterface.createTable('NameYearStats', {
+      id, name, sex,
+      year: { type: DataTypes.SMALLINT.UNSIGNED, allowNull: false },
+      count,
+      rank: { type: DataTypes.INTEGER.UNSIGNED, allowNull: false },
+      share,
+    }, tableOptions);
+    await addIndex(queryInterface, 'NameYearStats', ['name', 'sex', 'year'], { name: 'uq_name_year_stats_key', unique: true, transaction });
+    await addIndex(queryInterface, 'NameYearStats', ['year', 'sex', 'rank'], { name: 'idx_name_year_stats_year_sex_rank', transaction });
+
+    // One row per (name, sex, decade); growth is against the previous decade, NULL when that had none
+    await queryInterface.createTable('NameDecadeStats', {
+      id, name, sex,
+      decade: { type: DataTypes.SMALLINT.UNSIGNED, allowNull: false },
+      count,
+      share,
+      growth: { type: DataTypes.DOUBLE, allowNull: true },
+    }, tableOptions);
+    await addIndex(queryInterface, 'NameDecadeStats', ['name', 'sex', 'decade'], { name: 'uq_name_decade_stats_key', unique: true, transaction });
+
+    // One row per (name, sex) over all years; the peak is the year of highest share
+    await queryInterface.createTable('NameSummaries', {
+      id, name, sex,
+      totalCount: { type: DataTypes.BIGINT.UNSIGNED, allowNull: false, defaultValue: 0 },
+      firstYear: { type: DataTypes.SMALLINT.UNSIGNED, allowNull: false },
+      lastYear: { type: DataTypes.SMALLINT.UNSIGNED, allowNull: false },
+      peakYear: { type: DataTypes.SMALLINT.UNSIGNED, allowNull: false },
+      peakCount: count,
+      peakShare: share,
+      bestRank: { type: DataTypes.INTEGER.UNSIGNED, allowNull: false },
+    }, tableOptions);
+    await addIndex(queryInterface, 'NameSummaries', ['name', 'sex'], { name: 'uq_name_summaries_key', unique: true, transaction });
+
+    // One row per name: the M/F split and a 0 (one sex only) to 1 (even split) unisex score
+    await queryInterface.createTable('NameGenderSplits', {
+      id, name,
+      maleCount: { type: DataTypes.BIGINT.UNSIGNED, allowNull: false, defaultValue: 0 },
+      femaleCount: { type: DataTypes.BIGINT.UNSIGNED, allowNull: false, defaultValue: 0 },
+      totalCount: { type: DataTypes.BIGINT.UNSIGNED, allowNull: false, defaultValue: 0 },
+      unisexScore: share,
+    }, tableOptions);
+    await addIndex(queryInterface, 'NameGenderSplits', ['name'], { name: 'uq_name_gender_splits_name', unique: true, transaction });
+    await addIndex(queryInterface, 'NameGenderSplits', ['unisexScore'], { name: 'idx_name_gender_splits_unisex_score', transaction });
+
+    logger.success('Migration completed: name analytics tables created');
+  } catch (error) {
+    logger.error('Migration failed', error);
+    throw error;
+  }
+}
+
+export async function down({ queryInterface, transaction }: MigrationContext) {
+  try {
+    logger.info('Rolling back migration: 008-create-name-analytics');
+
+    for (const table of TABLES) {
+      await queryInterface.dropTable(table, { transaction });
+    }
+
+    logger.success('Migration rollback completed');
+  } catch (error) {
+    logger.error('Migration rollback failed', error);
+    throw error;
+  }
+}
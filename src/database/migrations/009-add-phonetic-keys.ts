@@ -0,0 +1,82 @@
+// src/database/migrations/009-add-phonetic-keys.ts
+
+import { DataTypes, QueryInterface, QueryTypes, Transaction } from 'sequelize';
+import type { MigrationContext } from '../MigrationRunner';
+import { addColumn, addIndex, removeColumn, removeIndex } from '../MigrationHelpers';
+import { logger as rootLogger } from '../../utils/Logger';
+import { PhoneticKeys, phoneticKeys } from '../../services/search/Phonetics';
+
+const logger = rootLogger.child({ service: 'Migrations' });
+
+const COLUMNS = [
+  { column: 'soundex', index: 'idx_baby_names_soundex', type: DataTypes.CHAR(4), after: 'count' },
+  { column: 'metaphone', index: 'idx_baby_names_metaphone', type: DataTypes.STRING(4), after: 'soundex' },
+  { column: 'metaphoneAlt', index: 'idx_baby_names_metaphone_alt', type: DataTypes.STRING(4), after: 'metaphone' },
+];
+
+// Names per UPDATE ... WHERE name IN (...) during the backfill
+const BACKFILL_CHUNK = 500;
+
+/** Fills the keys for rows imported before this migration, one UPDATE per chunk of names with the same keys. */
+async function backfill(queryInterface: QueryInterface, transaction?: Transaction): Promise<number> {
+  const q = (identifier: string) => queryInterface.quoteIdentifier(identifier);
+  const rows = await queryInterface.sequelize.query<{ name: string }>(
+    `SELECT DISTINCT ${q('name')} FROM ${q('BabyNames')} WHERE ${q('soundex')} IS NULL`,
+    { type: QueryTypes.SELECT, logging: false, transaction }
+  );
+
+  const byKeys = new Map<string, { keys: PhoneticKeys; names: string[] }>();
+  for (const { name } of rows) {
+    const keys = phoneticKeys(name);
+    const id = `${keys.soundex}|${keys.metaphone}|${keys.metaphoneAlt}`;
+    const group = byKeys.get(id) ?? { keys, names: [] };
+    group.names.push(name);
+    byKeys.set(id, group);
+  }
+
+  for (const { keys, names } of byKeys.values()) {
+    for (let i = 0; i < names.length; i += BACKFILL_CHUNK) {
+      await queryInterface.bulkUpdate('BabyNames', keys, { name: names.slice(i, i + BACKFILL_CHUNK) }, { logging: false, transaction });
+    }
+  }
+  return rows.length;
+}
+
+export async function up({ queryInterface, transaction }: MigrationContext) {
+  try {
+    logger.info('Running migration: 009-add-phonetic-keys');
+
+    // Nullable until backfilled
+    for (const { column, type, after } of COLUMNS) {
+      await addColumn(queryInterface, 'BabyNames', column, { type, allowNull: true }, { after, transaction });
+    }
+
+    const names = await backfill(queryInterface, transaction);
+    logger.info(`Phonetic keys computed for ${names} existing names`);
+
+    for (const { column, index } of COLUMNS) {
+      await addIndex(queryInterface, 'BabyNames', [column], { name: index, transaction });
+    }
+
+    logger.success('Migration completed: phonetic key columns added');
+  } catch (error) {
+    logger.error('Migration failed', error);
+    throw error;
+  }
+}
+
+export async function down({ queryInterface, transaction }: MigrationContext) {
+  try {
+    logger.info('Rolling back migration: 009-add-phonetic-keys');
+
+    for (const { column, index } of [...COLUMNS].reverse()) {
+      await removeIndex(queryInterface, 'BabyNames', index, transaction);
+      await removeColumn(queryInterface, 'BabyNames', column, transaction);
+    }
+
+    logger.success('Migration rollback completed');
+  } catch (error) {
+    logger.error('Migration rollback failed', error);
+    throw error;
+  }
+}
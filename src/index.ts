@@ -1,7 +1,87 @@
 // src/index.ts
+//
+// Usage:
+//   tsx src/index.ts                       run migrate → download → import → sync
+//   tsx src/index.ts --resume              continue the last run from its failed stage
+//                                          (an interrupted import continues after its last committed batch)
+//   tsx src/index.ts --only import,sync    run just the listed stages
+//   tsx src/index.ts --skip download       run everything except the listed stages
+//   tsx src/index.ts --only sync --retry-failed   re-send records HubSpot rejected earlier
+//   tsx src/index.ts --only download --force      download again even if a version exists (kept only if it differs)
+//   tsx src/index.ts --if-changed          download only if upstream changed (by version / SHA-256)
+//   tsx src/index.ts --only import --reimport     import a file whose checksum was already imported
+//   tsx src/index.ts --only import --bulk-load    import through LOAD DATA LOCAL INFILE and a staging table
+//
+// Each run writes a JSON report to RUN_REPORT_DIR; with METRICS_PORT set,
+// http://METRICS_HOST:METRICS_PORT/metrics serves Prometheus metrics while it runs.
 
+import { sequelize } from './config/DatabaseConfig.js';
+import { envConfig } from './config/EnvConfig';
 import { logger } from './utils/Logger';
+import { handleError, AppError } from './utils/ErrorHandler';
+import { PipelineOptions, PipelineOrchestrator } from './services/PipelineOrchestrator';
+import { MetricsServer } from './api/MetricsServer';
 
-logger.info('🚀 Baby Names Pipeline Started');
-logger.info('Run: npm run dev');
-logger.info('This will execute: migrate → download → import → sync')
\ No newline at end of file
+function parseArgs(args: string[]): PipelineOptions {
+  const options: PipelineOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inline] = args[i].split('=', 2);
+    const value = () => {
+      const v = inline ?? args[++i];
+      if (!v) {
+        throw new AppError('INVALID_ARGUMENT', 400, `${flag} requires a comma-separated list of stages`);
+      }
+      return v;
+    };
+
+    switch (flag) {
+      case '--resume':
+        options.resume = true;
+        break;
+      case '--retry-failed':
+        options.retryFailed = true;
+        break;
+      case '--force':
+        options.force = true;
+        break;
+      case '--if-changed':
+        options.ifChanged = true;
+        break;
+      case '--reimport':
+        options.reimport = true;
+        break;
+      case '--bulk-load':
+        options.bulkLoad = true;
+        break;
+      case '--only':
+        options.only = PipelineOrchestrator.parseStages(value());
+        break;
+      case '--skip':
+        options.skip = PipelineOrchestrator.parseStages(value());
+        break;
+      default:
+        throw new AppError('INVALID_ARGUMENT', 400, `Unknown option: ${args[i]}`);
+    }
+  }
+
+  return options;
+}
+
+(async () => {
+  const metricsServer = envConfig.metrics.port > 0 ? new MetricsServer() : null;
+  try {
+    logger.info('🚀 Baby Names Pipeline Started');
+    const options = parseArgs(process.argv.slice(2));
+    await metricsServer?.start(envConfig.metrics.port, envConfig.metrics.host);
+    await new PipelineOrchestrator().run(options);
+    await metricsServer?.stop();
+    await sequelize.close();
+    process.exit(0);
+  } catch (err) {
+    await handleError(err, 'Pipeline', 'Pipeline run failed');
+    await metricsServer?.stop().catch(() => {});
+    await sequelize.close();
+    process.exit(1);
+  }
+})();
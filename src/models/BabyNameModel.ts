@@ -19,6 +19,39 @@ BabyName.init(
       type: DataTypes.ENUM('M', 'F'),
       allowNull: false,
     },
+    year: {
+      type: DataTypes.SMALLINT.UNSIGNED,
+      allowNull: true,        // null for rows imported before migration 002
+    },
+    count: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    soundex: {
+      type: DataTypes.CHAR(4),
+      allowNull: true,        // phonetic keys for fuzzy search, see services/search/Phonetics.ts
+    },
+    metaphone: {
+      type: DataTypes.STRING(4),
+      allowNull: true,
+    },
+    metaphoneAlt: {
+      type: DataTypes.STRING(4),
+      allowNull: true,
+    },
+    hubspotId: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    syncHash: {
+      type: DataTypes.CHAR(64),
+      allowNull: true,        // hash of the properties last sent to HubSpot
+    },
+    syncedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
   },
   {
     sequelize,              // connection instance
@@ -30,6 +63,11 @@ BabyName.init(
         fields: ['name', 'sex'],
         name: 'idx_name_sex',
       },
+      {
+        unique: true,
+        fields: ['name', 'sex', 'year'],
+        name: 'uq_baby_names_name_sex_year',
+      },
     ],
   }
 );
@@ -0,0 +1,94 @@
+import { DataTypes, Model } from 'sequelize';
+import { sequelize } from '../config/DatabaseConfig.js';
+
+
+class ImportRun extends Model {}
+
+ImportRun.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    sha256: {
+      type: DataTypes.CHAR(64),
+      allowNull: false,
+    },
+    fileName: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    archiveName: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    mode: {
+      type: DataTypes.ENUM('batch', 'bulk'),
+      allowNull: false,
+      defaultValue: 'batch',
+    },
+    status: {
+      type: DataTypes.ENUM('running', 'completed', 'failed'),
+      allowNull: false,
+      defaultValue: 'running',
+    },
+    rowOffset: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,      // source rows (accepted or rejected) covered by committed batches
+    },
+    byteOffset: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,      // uncompressed bytes read when the checkpoint was committed
+    },
+    accepted: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    rejected: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    inserted: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    updated: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    unchanged: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    errorMessage: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    finishedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'ImportRun',
+    tableName: 'ImportRuns',
+    timestamps: true,
+    indexes: [
+      {
+        fields: ['sha256', 'status'],
+        name: 'idx_import_runs_sha256_status',
+      },
+    ],
+  }
+);
+
+export default ImportRun;
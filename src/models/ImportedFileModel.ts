@@ -0,0 +1,45 @@
+import { DataTypes, Model } from 'sequelize';
+import { sequelize } from '../config/DatabaseConfig.js';
+
+
+class ImportedFile extends Model {}
+
+ImportedFile.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    sha256: {
+      type: DataTypes.CHAR(64),
+      allowNull: false,
+      unique: 'uq_imported_files_sha256',
+    },
+    fileName: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    archiveName: {
+      type: DataTypes.STRING,
+      allowNull: true,      // ZIP/gzip the entry was read from
+    },
+    size: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+    },
+    rowCount: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'ImportedFile',
+    tableName: 'ImportedFiles',
+    timestamps: true,       // createdAt is when the import finished
+  }
+);
+
+export default ImportedFile;
@@ -0,0 +1,48 @@
+import { DataTypes, Model } from 'sequelize';
+import { sequelize } from '../config/DatabaseConfig.js';
+
+
+class NameDecadeStat extends Model {}
+
+NameDecadeStat.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    sex: {
+      type: DataTypes.ENUM('M', 'F'),
+      allowNull: false,
+    },
+    decade: {
+      type: DataTypes.SMALLINT.UNSIGNED,
+      allowNull: false,       // First year of the decade, e.g. 1990
+    },
+    count: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    share: {
+      type: DataTypes.DOUBLE,
+      allowNull: false,       // count / all births of this sex in the decade
+    },
+    growth: {
+      type: DataTypes.DOUBLE,
+      allowNull: true,        // (count - previous decade) / previous decade; null if the previous decade had none
+    },
+  },
+  {
+    sequelize,
+    modelName: 'NameDecadeStat',
+    tableName: 'NameDecadeStats',
+    timestamps: false,
+  }
+);
+
+export default NameDecadeStat;
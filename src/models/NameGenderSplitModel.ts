@@ -0,0 +1,46 @@
+import { DataTypes, Model } from 'sequelize';
+import { sequelize } from '../config/DatabaseConfig.js';
+
+
+class NameGenderSplit extends Model {}
+
+NameGenderSplit.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    maleCount: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    femaleCount: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    totalCount: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    unisexScore: {
+      type: DataTypes.DOUBLE,
+      allowNull: false,       // 1 - |M - F| / (M + F): 0 = one sex only, 1 = even split
+    },
+  },
+  {
+    sequelize,
+    modelName: 'NameGenderSplit',
+    tableName: 'NameGenderSplits',
+    timestamps: false,
+  }
+);
+
+export default NameGenderSplit;
@@ -0,0 +1,60 @@
+import { DataTypes, Model } from 'sequelize';
+import { sequelize } from '../config/DatabaseConfig.js';
+
+
+class NameSummary extends Model {}
+
+NameSummary.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    sex: {
+      type: DataTypes.ENUM('M', 'F'),
+      allowNull: false,
+    },
+    totalCount: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    firstYear: {
+      type: DataTypes.SMALLINT.UNSIGNED,
+      allowNull: false,
+    },
+    lastYear: {
+      type: DataTypes.SMALLINT.UNSIGNED,
+      allowNull: false,
+    },
+    peakYear: {
+      type: DataTypes.SMALLINT.UNSIGNED,
+      allowNull: false,       // Year of the highest share (earliest on a tie)
+    },
+    peakCount: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+    },
+    peakShare: {
+      type: DataTypes.DOUBLE,
+      allowNull: false,
+    },
+    bestRank: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'NameSummary',
+    tableName: 'NameSummaries',
+    timestamps: false,
+  }
+);
+
+export default NameSummary;
@@ -0,0 +1,48 @@
+import { DataTypes, Model } from 'sequelize';
+import { sequelize } from '../config/DatabaseConfig.js';
+
+
+class NameYearStat extends Model {}
+
+NameYearStat.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    sex: {
+      type: DataTypes.ENUM('M', 'F'),
+      allowNull: false,
+    },
+    year: {
+      type: DataTypes.SMALLINT.UNSIGNED,
+      allowNull: false,
+    },
+    count: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    rank: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,       // 1 = most common name of this sex that year; ties share a rank
+    },
+    share: {
+      type: DataTypes.DOUBLE,
+      allowNull: false,       // count / all births of this sex that year
+    },
+  },
+  {
+    sequelize,
+    modelName: 'NameYearStat',
+    tableName: 'NameYearStats',
+    timestamps: false,        // rebuilt wholesale by NameAnalyticsService.refresh()
+  }
+);
+
+export default NameYearStat;
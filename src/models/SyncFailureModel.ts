@@ -0,0 +1,53 @@
+import { DataTypes, Model } from 'sequelize';
+import { sequelize } from '../config/DatabaseConfig.js';
+
+
+class SyncFailure extends Model {}
+
+SyncFailure.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    babyNameId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      unique: 'uq_sync_failures_baby_name_id',
+    },
+    payload: {
+      type: DataTypes.JSON,   // the input HubSpot rejected
+      allowNull: false,
+    },
+    errorStatus: {
+      type: DataTypes.SMALLINT,
+      allowNull: true,
+    },
+    errorMessage: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    errorPayload: {
+      type: DataTypes.JSON,   // HubSpot's error response body
+      allowNull: true,
+    },
+    attempts: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 1,
+    },
+    resolvedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'SyncFailure',
+    tableName: 'SyncFailures',
+    timestamps: true,
+  }
+);
+
+export default SyncFailure;
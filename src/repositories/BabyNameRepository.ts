@@ -0,0 +1,167 @@
+// src/repositories/BabyNameRepository.ts
+
+import { Op, QueryTypes, Transaction, WhereOptions } from 'sequelize';
+import { sequelize } from '../config/DatabaseConfig.js';
+import BabyName from '../models/BabyNameModel';
+import { logger } from '../utils/Logger';
+import { foldsNameCase, nullSafeEquals, quote as q } from '../database/Dialect';
+
+export interface IterateOptions {
+  where?: WhereOptions;
+  pageSize?: number;   // Rows per query (default 5000)
+  afterId?: number;    // Start after this id (exclusive)
+  attributes?: string[];
+}
+
+export interface NaturalKeyFields {
+  name: string;
+  sex: string;
+  year: number | null;
+}
+
+export interface DuplicateRow extends NaturalKeyFields {
+  id: number;
+  count: number;
+  hubspotId: string | null;
+  updatedAt: Date;
+}
+
+/** A name as the database's collation compares it (see naturalKey). */
+export const foldName = (name: string): string =>
+  foldsNameCase() ? name.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase() : name;
+
+/**
+ * (name, sex, year) as the database compares it: on MySQL the name column's
+ * utf8mb4_unicode_ci collation ignores case and accents, so the key does too;
+ * PostgreSQL and SQLite compare names exactly.
+ */
+export const naturalKey = (row: NaturalKeyFields): string =>
+  `${foldName(row.name)}|${row.sex}|${row.year ?? ''}`;
+
+export class BabyNameRepository {
+  /**
+   * Yields pages of BabyName rows in id order using keyset pagination
+   * (`WHERE id > :cursor ORDER BY id LIMIT n`). Each page is an index
+   * range scan on the primary key, so its cost doesn't grow with depth
+   * the way OFFSET does, and rows removed from `where` mid-iteration
+   * can't cause others to be skipped.
+   */
+  async *pages(options: IterateOptions = {}): AsyncGenerator<any[]> {
+    const pageSize = options.pageSize ?? 5000;
+    let cursor = options.afterId ?? 0;
+
+    while (true) {
+      const page = await BabyName.findAll({
+        where: options.where
+          ? { [Op.and]: [{ id: { [Op.gt]: cursor } }, options.where] }
+          : { id: { [Op.gt]: cursor } },
+        // The cursor needs id even when the caller narrows the columns
+        attributes: options.attributes && [...new Set(['id', ...options.attributes])],
+        order: [['id', 'ASC']],
+        limit: pageSize,
+        raw: true,
+        logging: false,
+      });
+
+      if (page.length === 0) {
+        return;
+      }
+
+      cursor = (page[page.length - 1] as any).id;
+      logger.debug(`Fetched ${page.length} rows (cursor now at id ${cursor})`);
+      yield page;
+
+      if (page.length < pageSize) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Existing rows for the given natural keys, keyed by naturalKey(). The
+   * query is a superset (names × sexes × years), narrowed here.
+   */
+  async findByNaturalKeys(
+    keys: NaturalKeyFields[],
+    transaction?: Transaction
+  ): Promise<Map<string, { id: number; name: string; count: number }>> {
+    const found = new Map<string, { id: number; name: string; count: number }>();
+    if (keys.length === 0) {
+      return found;
+    }
+
+    const years = [...new Set(keys.map(k => k.year).filter((y): y is number => y !== null))];
+    const yearConditions: WhereOptions[] = [];
+    if (years.length > 0) yearConditions.push({ year: years });
+    if (keys.some(k => k.year === null)) yearConditions.push({ year: null });
+
+    const rows = await BabyName.findAll({
+      attributes: ['id', 'name', 'sex', 'year', 'count'],
+      where: {
+        name: [...new Set(keys.map(k => k.name))],
+        sex: [...new Set(keys.map(k => k.sex))],
+        [Op.or]: yearConditions,
+      },
+      order: [['id', 'ASC']],
+      raw: true,
+      logging: false,
+      transaction,
+    }) as any[];
+
+    const wanted = new Set(keys.map(naturalKey));
+    for (const row of rows) {
+      const key = naturalKey(row);
+      // Lowest id wins if the table already holds duplicates
+      if (wanted.has(key) && !found.has(key)) {
+        found.set(key, { id: row.id, name: row.name, count: row.count });
+      }
+    }
+    return found;
+  }
+
+  /** Number of (name, sex, year) groups with more than one row, and the surplus rows. */
+  async countDuplicates(): Promise<{ groups: number; extraRows: number }> {
+    const [result] = await sequelize.query<{ groups: number; extraRows: number | null }>(
+      `
+        SELECT COUNT(*) AS ${q('groups')}, SUM(${q('rows')} - 1) AS ${q('extraRows')}
+        FROM (
+          SELECT COUNT(*) AS ${q('rows')} FROM ${q('BabyNames')}
+          GROUP BY ${q('name')}, ${q('sex')}, ${q('year')}
+          HAVING COUNT(*) > 1
+        ) AS duplicates
+      `,
+      { type: QueryTypes.SELECT, logging: false }
+    );
+    return { groups: Number(result.groups), extraRows: Number(result.extraRows ?? 0) };
+  }
+
+  /**
+   * Every row of up to `limit` duplicated (name, sex, year) groups. GROUP BY
+   * treats NULL years as equal, which the unique key does not.
+   */
+  async findDuplicateRows(limit: number): Promise<DuplicateRow[]> {
+    return sequelize.query<DuplicateRow>(
+      `
+        SELECT b.${q('id')}, b.${q('name')}, b.${q('sex')}, b.${q('year')}, b.${q('count')}, b.${q('hubspotId')}, b.${q('updatedAt')}
+        FROM ${q('BabyNames')} b
+        JOIN (
+          SELECT ${q('name')}, ${q('sex')}, ${q('year')} FROM ${q('BabyNames')}
+          GROUP BY ${q('name')}, ${q('sex')}, ${q('year')}
+          HAVING COUNT(*) > 1
+          LIMIT :limit
+        ) d ON b.${q('name')} = d.${q('name')} AND b.${q('sex')} = d.${q('sex')} AND ${nullSafeEquals(`b.${q('year')}`, `d.${q('year')}`)}
+        ORDER BY b.${q('id')}
+      `,
+      { replacements: { limit }, type: QueryTypes.SELECT, logging: false }
+    );
+  }
+
+  /** Row-at-a-time view over pages(); breaking out of the loop stops fetching. */
+  async *rows(options: IterateOptions = {}): AsyncGenerator<any> {
+    for await (const page of this.pages(options)) {
+      yield* page;
+    }
+  }
+}
+
+export const babyNameRepository = new BabyNameRepository();
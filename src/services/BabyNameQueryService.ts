@@ -0,0 +1,176 @@
+// src/services/BabyNameQueryService.ts
+
+import { Op, WhereOptions, col, fn } from 'sequelize';
+import BabyName from '../models/BabyNameModel';
+import { AppError } from '../utils/ErrorHandler';
+import { caseInsensitiveLike } from '../database/Dialect';
+
+export type Sex = 'M' | 'F';
+
+export interface NameRow {
+  name: string;
+  sex: Sex;
+  year: number | null;
+  count: number;
+}
+
+export interface NameSearch {
+  prefix?: string;
+  sex?: Sex;
+  year?: number;
+  page: number;         // 1-based
+  pageSize: number;
+}
+
+export interface Page<T> {
+  data: T[];
+  pagination: { page: number; pageSize: number; total: number; totalPages: number };
+}
+
+export interface NameHistory {
+  name: string;
+  total: number;
+  bySex: Record<Sex, number>;
+  years: NameRow[];
+}
+
+export interface RankedName {
+  rank: number;
+  name: string;
+  sex: Sex;
+  count: number;
+}
+
+export interface DatasetStats {
+  rows: number;
+  names: number;          // Distinct names
+  totalCount: number;     // Sum of count over every row
+  years: { first: number | null; last: number | null };
+  bySex: Record<Sex, { rows: number; totalCount: number }>;
+  synced: number;         // Rows sent to HubSpot at least once
+}
+
+const ROW_ATTRIBUTES = ['name', 'sex', 'year', 'count'];
+
+/** SUM/COUNT come back as strings from MySQL and PostgreSQL. */
+const toNumber = (value: unknown): number => Number(value ?? 0);
+
+/**
+ * Read-only queries behind the REST API. Name matching ignores case on
+ * every dialect; whether it also ignores accents depends on the database
+ * collation (MySQL does, PostgreSQL and SQLite don't).
+ */
+export class BabyNameQueryService {
+  async search(search: NameSearch): Promise<Page<NameRow>> {
+    const where: WhereOptions[] = [];
+    if (search.prefix) where.push({ name: { [caseInsensitiveLike()]: `${search.prefix}%` } });
+    if (search.sex) where.push({ sex: search.sex });
+    if (search.year !== undefined) where.push({ year: search.year });
+
+    const { rows, count } = await BabyName.findAndCountAll({
+      attributes: ROW_ATTRIBUTES,
+      where: { [Op.and]: where },
+      order: [['name', 'ASC'], ['sex', 'ASC'], ['year', 'ASC']],
+      limit: search.pageSize,
+      offset: (search.page - 1) * search.pageSize,
+      raw: true,
+      logging: false,
+    });
+
+    return {
+      data: rows as unknown as NameRow[],
+      pagination: {
+        page: search.page,
+        pageSize: search.pageSize,
+        total: count,
+        totalPages: Math.ceil(count / search.pageSize),
+      },
+    };
+  }
+
+  /** Every (sex, year) row for one name, oldest first. Throws NAME_NOT_FOUND when there are none. */
+  async history(name: string, sex?: Sex): Promise<NameHistory> {
+    const rows = await BabyName.findAll({
+      attributes: ROW_ATTRIBUTES,
+      where: { name: { [caseInsensitiveLike()]: name }, ...(sex ? { sex } : {}) },
+      order: [['year', 'ASC'], ['sex', 'ASC']],
+      raw: true,
+      logging: false,
+    }) as unknown as NameRow[];
+
+    if (rows.length === 0) {
+      throw new AppError('NAME_NOT_FOUND', 404, `No rows for name "${name}"${sex ? ` and sex ${sex}` : ''}`);
+    }
+
+    const bySex: Record<Sex, number> = { M: 0, F: 0 };
+    for (const row of rows) {
+      bySex[row.sex] += row.count;
+    }
+
+    return { name: rows[0].name, total: bySex.M + bySex.F, bySex, years: rows };
+  }
+
+  /** Most common names by count, in one year or summed over all of them. */
+  async top(options: { year?: number; sex?: Sex; limit: number }): Promise<RankedName[]> {
+    const where: WhereOptions = {};
+    if (options.year !== undefined) Object.assign(where, { year: options.year });
+    if (options.sex) Object.assign(where, { sex: options.sex });
+
+    const rows = await BabyName.findAll({
+      attributes: ['name', 'sex', [fn('SUM', col('count')), 'count']],
+      where,
+      group: ['name', 'sex'],
+      order: [[fn('SUM', col('count')), 'DESC'], ['name', 'ASC']],
+      limit: options.limit,
+      raw: true,
+      logging: false,
+    }) as any[];
+
+    return rows.map((row, index) => ({
+      rank: index + 1,
+      name: row.name,
+      sex: row.sex,
+      count: toNumber(row.count),
+    }));
+  }
+
+  async stats(): Promise<DatasetStats> {
+    const [totals] = await BabyName.findAll({
+      attributes: [
+        [fn('COUNT', col('id')), 'rows'],
+        [fn('COUNT', fn('DISTINCT', col('name'))), 'names'],
+        [fn('SUM', col('count')), 'totalCount'],
+        [fn('MIN', col('year')), 'first'],
+        [fn('MAX', col('year')), 'last'],
+      ],
+      raw: true,
+      logging: false,
+    }) as any[];
+
+    const perSex = await BabyName.findAll({
+      attributes: ['sex', [fn('COUNT', col('id')), 'rows'], [fn('SUM', col('count')), 'totalCount']],
+      group: ['sex'],
+      raw: true,
+      logging: false,
+    }) as any[];
+
+    const bySex: DatasetStats['bySex'] = { M: { rows: 0, totalCount: 0 }, F: { rows: 0, totalCount: 0 } };
+    for (const row of perSex) {
+      bySex[row.sex as Sex] = { rows: toNumber(row.rows), totalCount: toNumber(row.totalCount) };
+    }
+
+    const synced = await BabyName.count({ where: { syncedAt: { [Op.ne]: null } }, logging: false });
+
+    return {
+      rows: toNumber(totals.rows),
+      names: toNumber(totals.names),
+      totalCount: toNumber(totals.totalCount),
+      years: {
+        first: totals.first === null ? null : toNumber(totals.first),
+        last: totals.last === null ? null : toNumber(totals.last),
+      },
+      bySex,
+      synced,
+    };
+  }
+}
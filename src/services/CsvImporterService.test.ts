@@ -0,0 +1,84 @@
+// src/services/CsvImporterService.test.ts
+
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+
+// The database and config are read on import, so point them at a scratch SQLite file first.
+// Batches of 2 would commit several times before the end of the files below.
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'csv-importer-test-'));
+process.env.DB_DIALECT = 'sqlite';
+process.env.DB_STORAGE = path.join(tmpDir, 'import.sqlite');
+process.env.HUBSPOT_ACCESS_TOKEN = 'mock-token';
+process.env.IMPORT_REJECTS_FILE = path.join(tmpDir, 'rejects.csv');
+process.env.IMPORT_MAX_REJECT_RATE = '0.01';
+process.env.BATCH_SIZE = '2';
+delete process.env.CSV_FORMAT_FILE;
+
+const { sequelize } = await import('../config/DatabaseConfig.js');
+const { MigrationRunner } = await import('../database/MigrationRunner');
+const { default: BabyName } = await import('../models/BabyNameModel');
+const { default: ImportedFile } = await import('../models/ImportedFileModel');
+const { default: ImportRun } = await import('../models/ImportRunModel');
+const { AppError } = await import('../utils/ErrorHandler');
+const { LocalFileDataSource } = await import('./sources/LocalFileDataSource');
+const { CsvImporterService } = await import('./CsvImporterService');
+
+const NAMES = ['Mary', 'Anna', 'Emma', 'Elizabeth', 'Minnie', 'Margaret', 'Ida', 'Alice', 'Bertha', 'Sarah'];
+
+/** Writes a CSV of `valid` good rows followed by `invalid` rows with a non-numeric count. */
+function writeCsv(fileName: string, valid: number, invalid: number): string {
+  const lines = ['Name,Sex,YearOfBirth,Number'];
+  for (let i = 0; i < valid; i++) {
+    lines.push(`${NAMES[i % NAMES.length]},F,${1880 + i},${100 + i}`);
+  }
+  for (let i = 0; i < invalid; i++) {
+    lines.push(`John,M,${1880 + i},many`);
+  }
+  const filePath = path.join(tmpDir, fileName);
+  fs.writeFileSync(filePath, `${lines.join('\n')}\n`);
+  return filePath;
+}
+
+const importFile = (filePath: string) => new CsvImporterService(new LocalFileDataSource([filePath])).import();
+
+describe('CsvImporterService batch path', () => {
+  before(async () => {
+    await new MigrationRunner(sequelize).up();
+  });
+
+  after(async () => {
+    await sequelize.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    await ImportRun.destroy({ where: {} });
+    await ImportedFile.destroy({ where: {} });
+    await BabyName.destroy({ where: {} });
+  });
+
+  it('imports a clean file in batches and records it', async () => {
+    const result = await importFile(writeCsv('clean.csv', 9, 0));
+
+    assert.deepEqual(result, { inserted: 9, updated: 0, unchanged: 0, rejected: 0 });
+    assert.equal(await BabyName.count(), 9);
+    assert.equal(await ImportedFile.count(), 1);
+  });
+
+  it('writes no rows from a file over the reject limit', async () => {
+    await assert.rejects(importFile(writeCsv('broken.csv', 20, 10)), (error: unknown) => {
+      assert.ok(error instanceof AppError);
+      assert.equal(error.code, 'REJECT_RATE_EXCEEDED');
+      return true;
+    });
+
+    assert.equal(await BabyName.count(), 0);
+    assert.equal(await ImportedFile.count(), 0);
+    const [run] = await ImportRun.findAll();
+    assert.equal(run.get('status'), 'failed');
+    assert.equal(run.get('rowOffset'), 0);
+  });
+});
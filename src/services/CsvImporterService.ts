@@ -1,181 +1,385 @@
 // src/services/CsvImporterService.ts
 
-import fs from 'fs';
 import path from 'path';
-import { fileURLToPath } from 'url';
+import { pipeline } from 'stream';
 import csv from 'csv-parser';
-import AdmZip from 'adm-zip';
+import { Transaction } from 'sequelize';
 import { sequelize } from '../config/DatabaseConfig.js';
 import { envConfig } from '../config/EnvConfig';
-import { logger } from '../utils/Logger';
+import { logger as rootLogger } from '../utils/Logger';
 import { handleError, AppError } from '../utils/ErrorHandler';
 import BabyName from '../models/BabyNameModel';
+import ImportedFile from '../models/ImportedFileModel';
+import { sha256Stream } from '../utils/Checksum';
+import { babyNameRepository, naturalKey } from '../repositories/BabyNameRepository';
+import { BabyNameRow, ColumnMappedFormat, RowFormat, formatForFile } from './formats/RowFormat';
+import { BabyNameValidator } from './validation/BabyNameValidator';
+import { RejectsWriter } from './validation/RejectsWriter';
+import { ImportStats, rejectReasonKey } from './validation/ImportStats';
+import { StagingBulkLoader } from './StagingBulkLoader';
+import { phoneticKeys } from './search/Phonetics';
+import { ImportRunTracker } from './ImportRunTracker';
+import ImportRun from '../models/ImportRunModel';
+import { InputEntry, decodeStream, inputEntries } from './formats/InputEntries';
+import { CsvFormatConfig } from '../config/CsvFormatConfig';
+import { DataSource } from './sources/DataSource';
+import { createDataSource } from './sources/DataSourceFactory';
+import {
+  importBatchDuration,
+  importBytesTotal,
+  importFilesTotal,
+  importRejectsTotal,
+  importRowsTotal,
+  importRowsWrittenTotal,
+} from './PipelineMetrics';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+const logger = rootLogger.child({ service: 'CsvImporter' });
+
+// Rows read before the reject rate is trusted enough to commit the first batch
+const REJECT_RATE_MIN_ROWS = 1000;
+
+type WrittenCounts = Pick<ImportStats, 'inserted' | 'updated' | 'unchanged'>;
+
+const writtenCounts = (stats: ImportStats): WrittenCounts =>
+  ({ inserted: stats.inserted, updated: stats.updated, unchanged: stats.unchanged });
+
+/** Counts what a committed write did to BabyNames, from the stats before and after it. */
+function recordWritten(before: WrittenCounts, stats: ImportStats): void {
+  for (const outcome of ['inserted', 'updated', 'unchanged'] as const) {
+    importRowsWrittenTotal.inc(stats[outcome] - before[outcome], { outcome });
+  }
+}
+
+export interface ImportOptions {
+  reimport?: boolean;   // Import even if this file's checksum was imported before
+  resume?: boolean;     // Continue unfinished ImportRuns after their last committed batch
+  bulkLoad?: boolean;   // Stage with LOAD DATA LOCAL INFILE and merge in one transaction (MySQL only)
+}
+
+/** Totals over every file of an import; skipped files count nothing. */
+export interface ImportResult {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  rejected: number;
+}
 
 export class CsvImporterService {
-  private downloadDir: string;
   private batchSize: number = 1000; // Reasonable default   // Records per database insert
+  private dataSource: DataSource;
+  private csvFormat: CsvFormatConfig;
+  private validator: BabyNameValidator;
+  private maxRejectRate: number;
+  private bulkLoader = new StagingBulkLoader();
+  private runs = new ImportRunTracker();
 
-  constructor() {
-    this.downloadDir = path.resolve(__dirname, '../../', envConfig.app.downloadDir);
+  constructor(
+    dataSource: DataSource = createDataSource(),
+    csvFormat: CsvFormatConfig = ColumnMappedFormat.load(envConfig.app.csvFormatFile),
+    validator: BabyNameValidator = new BabyNameValidator()
+  ) {
+    this.dataSource = dataSource;
+    this.csvFormat = csvFormat;
+    this.validator = validator;
     this.batchSize = envConfig.app.batchSize || 1000;
+    this.maxRejectRate = envConfig.app.maxRejectRate;
   }
 
-  private findCsvFile(): string {
-    const files = fs.readdirSync(this.downloadDir);
-    
-    // Look for ZIP file
-    const zipFile = files.find(f => f.endsWith('.zip'));
-    if (zipFile) {
-      return path.join(this.downloadDir, zipFile);
+  /** Imports every file the data source has locally. */
+  async import(options: ImportOptions = {}): Promise<ImportResult> {
+    try {
+      await sequelize.authenticate();
+      logger.success('Database connected');
+
+      if (options.bulkLoad) {
+        this.bulkLoader.assertSupported();
+      }
+
+      const files = this.dataSource.localFiles();
+      logger.info(`Importing ${files.length} file(s) from the ${this.dataSource.name} source`);
+
+      const rejects = new RejectsWriter(path.resolve(envConfig.app.rejectsFile), options.resume);
+      const totals = new ImportStats();
+      let entryCount = 0;
+
+      try {
+        for (const file of files) {
+          // A ZIP can hold many files; each entry is imported and recorded on its own
+          for (const entry of await inputEntries(file)) {
+            totals.add(await this.importEntry(entry, options, rejects));
+            entryCount++;
+          }
+        }
+      } finally {
+        await rejects.close();
+        if (rejects.count > 0) {
+          logger.warn(`${rejects.count} rejected rows written to ${rejects.filePath}`);
+        }
+      }
+
+      if (entryCount > 1) {
+        totals.log('All files');
+        logger.success(
+          `All files imported. ${totals.inserted} inserted, ${totals.updated} updated, ${totals.unchanged} unchanged`
+        );
+      }
+      return { inserted: totals.inserted, updated: totals.updated, unchanged: totals.unchanged, rejected: totals.rejected };
+    } catch (error) {
+      await handleError(error, 'CsvImporter', 'Failed to import CSV');
+      throw error;
     }
+  }
 
-    // Look for CSV file
-    const csvFile = files.find(f => f.endsWith('.csv'));
-    if (csvFile) {
-      return path.join(this.downloadDir, csvFile);
+  /**
+   * Upserts on the natural key (name, sex, year): new keys are inserted,
+   * existing rows get the new count, identical rows are left alone so their
+   * updatedAt (and HubSpot sync state) doesn't move. `onCommit` runs last
+   * inside the same transaction.
+   */
+  private async upsertBatch(
+    rows: BabyNameRow[],
+    stats: ImportStats,
+    onCommit?: (transaction: Transaction) => Promise<void>
+  ): Promise<void> {
+    const endTimer = importBatchDuration.startTimer();
+    const before = writtenCounts(stats);
+
+    // The last occurrence wins when a file repeats a key
+    const byKey = new Map<string, BabyNameRow>();
+    for (const row of rows) {
+      const key = naturalKey(row);
+      if (byKey.has(key)) {
+        stats.duplicates++;
+      }
+      byKey.set(key, row);
     }
 
-    throw new AppError(
-      'FILE_NOT_FOUND',
-      404,
-      `No CSV or ZIP file found in ${this.downloadDir}`
-    );
+    await sequelize.transaction(async (transaction) => {
+      const existing = await babyNameRepository.findByNaturalKeys([...byKey.values()], transaction);
+
+      const inserts: BabyNameRow[] = [];
+      const updates: (BabyNameRow & { id: number })[] = [];
+      for (const [key, row] of byKey) {
+        const match = existing.get(key);
+        if (!match) {
+          inserts.push(row);
+        } else if (match.count !== row.count) {
+          // Keep the stored spelling; only the count changes
+          updates.push({ ...row, id: match.id, name: match.name });
+        } else {
+          stats.unchanged++;
+        }
+      }
+
+      if (inserts.length > 0) {
+        // Phonetic keys for fuzzy search; updates keep the stored name, so theirs don't change
+        const withKeys = inserts.map(row => ({ ...row, ...phoneticKeys(row.name) }));
+        await BabyName.bulkCreate(withKeys, { transaction, logging: false });
+      }
+      if (updates.length > 0) {
+        // Conflicts on the primary key, which also covers rows with a NULL year
+        await BabyName.bulkCreate(updates, {
+          updateOnDuplicate: ['count', 'updatedAt'],
+          conflictAttributes: ['id'],   // PostgreSQL/SQLite would otherwise pick the (name, sex, year) key
+          transaction,
+          logging: false,
+        });
+      }
+
+      stats.inserted += inserts.length;
+      stats.updated += updates.length;
+      await onCommit?.(transaction);
+    });
+
+    recordWritten(before, stats);
+    endTimer();
   }
 
-  private extractZip(zipPath: string): string {
-    logger.info(`Extracting ZIP file: ${zipPath}`);
-    const zip = new AdmZip(zipPath);
-    const entries = zip.getEntries();
+  /**
+   * Parses and validates an entry, yielding accepted rows; rejects go to the
+   * report. The first `skipRows` rows were committed by an earlier run and
+   * are only counted past.
+   */
+  private async *validRows(
+    entry: InputEntry,
+    format: RowFormat,
+    stats: ImportStats,
+    rejects: RejectsWriter,
+    skipRows: number = 0
+  ): AsyncGenerator<BabyNameRow> {
+    // Line numbers in the rejects report count the header line when there is one
+    const headerLines = format.headers ? 0 : 1;
 
-    const csvEntry = entries.find(e =>
-      e.entryName.includes('.csv') && !e.isDirectory
+    // Streamed straight from the file or archive; nothing is extracted to disk.
+    // Entries may be compressed, so resuming re-reads from the start and skips by row.
+    let bytesRead = 0;
+    const source = entry.open().on('data', (chunk: Buffer) => {
+      bytesRead += chunk.length;
+      stats.bytes = bytesRead;
+      importBytesTotal.inc(chunk.length);
+    });
+    const parsed = pipeline(
+      source,
+      decodeStream(format.encoding),
+      csv({
+        separator: format.separator,
+        headers: format.headers,
+        mapHeaders: ({ header }) => header.trim(),
+      }),
+      () => {}
     );
 
-    if (!csvEntry) {
-      throw new AppError(
-        'CSV_NOT_IN_ZIP',
-        400,
-        'No CSV file found inside ZIP'
-      );
-    }
+    let seen = 0;
+    for await (const row of parsed) {
+      if (++seen <= skipRows) {
+        continue;
+      }
+      stats.rows++;
+
+      const raw = format.extract(row);
+      const result = this.validator.validate(raw);
+      if (!result.ok) {
+        stats.reject(result.reason);
+        importRowsTotal.inc(1, { result: 'rejected' });
+        importRejectsTotal.inc(1, { reason: rejectReasonKey(result.reason) });
+        rejects.write({ source: entry.label, line: stats.rows + headerLines, reason: result.reason, raw });
+        logger.debug(`Rejected ${entry.label} line ${stats.rows + headerLines}: ${result.reason}`);
+        continue;
+      }
 
-    zip.extractEntryTo(csvEntry, this.downloadDir, false, true);
-    const extractedPath = path.join(this.downloadDir, csvEntry.entryName);
-    logger.success(`Extracted: ${extractedPath}`);
-    return extractedPath;
+      stats.accepted++;
+      importRowsTotal.inc(1, { result: 'accepted' });
+      yield result.row;
+    }
   }
 
-  async import(): Promise<number> {
-    let filePath: string;
+  /**
+   * Default path: upserts through Sequelize in BATCH_SIZE batches, each
+   * committed together with the run's checkpoint. A failed batch ends the
+   * import; the run keeps the last committed offset for --resume.
+   *
+   * The reject rate is checked before every commit, and the first batch waits
+   * until REJECT_RATE_MIN_ROWS rows have been read, so a file in the wrong
+   * format fails before it writes anything. Rejects that only pile up later
+   * in a file still fail it, but after the earlier batches were committed.
+   */
+  private async batchLoad(
+    entry: InputEntry,
+    rows: AsyncIterable<BabyNameRow>,
+    stats: ImportStats,
+    run: ImportRun,
+    rejects: RejectsWriter
+  ): Promise<void> {
+    const checkpoint = (transaction: Transaction) => this.runs.checkpoint(run, stats, transaction);
+    let batch: BabyNameRow[] = [];
 
-    try {
-      await sequelize.authenticate();
-      logger.success('Database connected');
+    for await (const row of rows) {
+      batch.push(row);
 
-      const foundFile = this.findCsvFile();
-      filePath = foundFile.endsWith('.zip')
-        ? this.extractZip(foundFile)
-        : foundFile;
-
-      if (!fs.existsSync(filePath)) {
-        throw new AppError(
-          'FILE_NOT_FOUND',
-          404,
-          `CSV file not found at: ${filePath}`
-        );
+      // Upsert batch when it reaches the threshold
+      if (batch.length >= this.batchSize && stats.rows >= REJECT_RATE_MIN_ROWS) {
+        this.assertRejectRate(entry, stats, rejects);
+        await this.upsertBatch(batch, stats, checkpoint);
+        batch = [];
+        logger.info(`Imported ${stats.inserted + stats.updated + stats.unchanged} records (processed ${stats.rows} rows)...`);
       }
+    }
+
+    // Upsert remaining records; with none left, still checkpoint the trailing rejects
+    this.assertRejectRate(entry, stats, rejects);
+    if (batch.length > 0) {
+      await this.upsertBatch(batch, stats, checkpoint);
+    } else {
+      await sequelize.transaction(checkpoint);
+    }
+  }
+
+  /**
+   * Too many rejects points at a wrong format or a broken file. Called before
+   * rows are written; the file is left unrecorded so it can be re-imported.
+   */
+  private assertRejectRate(entry: InputEntry, stats: ImportStats, rejects: RejectsWriter): void {
+    if (stats.rejectRate <= this.maxRejectRate) {
+      return;
+    }
+
+    stats.log(entry.label);
+    throw new AppError(
+      'REJECT_RATE_EXCEEDED',
+      422,
+      `${entry.label}: ${(stats.rejectRate * 100).toFixed(2)}% of rows rejected, above the ` +
+      `${(this.maxRejectRate * 100).toFixed(2)}% limit (IMPORT_MAX_REJECT_RATE). See ${rejects.filePath}`
+    );
+  }
 
-      logger.info(`Reading CSV: ${filePath}`);
-      logger.info(`Batch size: ${this.batchSize}`);
+  private async importEntry(entry: InputEntry, options: ImportOptions, rejects: RejectsWriter): Promise<ImportStats> {
+    // Hash the decompressed content so the same CSV is recognised loose or inside an archive
+    const sha256 = await sha256Stream(entry.open());
 
-      let batch: { name: string; sex: string }[] = [];
-      let totalInserted = 0;
-      let rowCount = 0;
+    const previous = await ImportedFile.findOne({ where: { sha256 }, logging: false });
+    if (previous && !options.reimport) {
+      logger.warn(
+        `${entry.label} (sha256 ${sha256.slice(0, 12)}…) was already imported on ` +
+        `${(previous.get('createdAt') as Date).toISOString()}. Skipping; use --reimport to import it again.`
+      );
+      importFilesTotal.inc(1, { outcome: 'skipped' });
+      return new ImportStats();
+    }
 
-      return await new Promise((resolve, reject) => {
-        const stream = fs.createReadStream(filePath)
-          .pipe(csv());
+    // The format decides the columns; SSA yobYYYY.txt files carry the year in the name
+    const format = formatForFile(entry.name, this.csvFormat);
+    const { run, stats, skipRows } = await this.runs.start(entry, sha256, options);
 
-        stream.on('data', (row: any) => {
-          rowCount++;
+    try {
+      const rows = this.validRows(entry, format, stats, rejects, skipRows);
 
-          // Validate row
-          if (!row.Name || !row.Sex) {
-            logger.info(`Skipping invalid row ${rowCount}: missing Name or Sex`);
-            return;
-          }
+      if (options.bulkLoad) {
+        logger.info(`Reading ${format.name}: ${entry.label} (bulk load via staging table)`);
 
-          batch.push({
-            name: row.Name.trim(),
-            sex: row.Sex.trim() === 'M' ? 'M' : 'F',
-          });
-
-          // Insert batch when it reaches the threshold
-          if (batch.length >= this.batchSize) {
-            stream.pause();
-            const batchToInsert = [...batch];
-            batch = [];
-
-            BabyName.bulkCreate(batchToInsert, { 
-              ignoreDuplicates: true,
-              logging: false, // Disable SQL logging
-            })
-              .then((created) => {
-                totalInserted += created.length;
-                logger.info(`Imported ${totalInserted} records (processed ${rowCount} rows)...`);
-                stream.resume();
-              })
-              .catch((err) => {
-                logger.error(`Batch insert error at row ${rowCount}:`, err);
-                stream.resume();
-              });
-          }
-        });
+        // Nothing reaches BabyNames until the whole file is staged and under the reject limit
+        const staging = await this.bulkLoader.stage(rows, stats);
+        try {
+          this.assertRejectRate(entry, stats, rejects);
+          const endTimer = importBatchDuration.startTimer();
+          const before = writtenCounts(stats);
+          await this.bulkLoader.merge(staging, stats, t => this.runs.checkpoint(run, stats, t));
+          recordWritten(before, stats);
+          endTimer();
+        } finally {
+          await this.bulkLoader.drop(staging);
+        }
+      } else {
+        logger.info(`Reading ${format.name}: ${entry.label}`);
+        logger.info(`Batch size: ${this.batchSize}`);
 
-        stream.on('end', async () => {
-          try {
-            // Insert remaining records
-            if (batch.length > 0) {
-              const remaining = await BabyName.bulkCreate(batch, {
-                ignoreDuplicates: true,
-                logging: false,
-              });
-              totalInserted += remaining.length;
-            }
-
-            logger.success(`Import complete! Total inserted: ${totalInserted} records (from ${rowCount} rows)`);
-            resolve(totalInserted);
-          } catch (err) {
-            logger.error('Final batch error:', err);
-            reject(err);
-          }
-        });
+        await this.batchLoad(entry, rows, stats, run, rejects);
+      }
 
-        stream.on('error', (err: any) => {
-          logger.error('CSV stream error:', err);
-          reject(err);
-        });
+      stats.log(entry.label);
+
+      await sequelize.transaction(async (transaction) => {
+        await ImportedFile.upsert({
+          sha256,
+          fileName: entry.name,
+          archiveName: entry.archive,
+          size: stats.bytes,
+          rowCount: stats.rows,
+        }, { transaction, logging: false });
+        await this.runs.complete(run, stats, transaction);
       });
     } catch (error) {
-      await handleError(error, 'CsvImporter', 'Failed to import CSV');
+      await this.runs.fail(run, error);
+      importFilesTotal.inc(1, { outcome: 'failed' });
+      logger.error(`Import run #${run.get('id')} of ${entry.label} failed after row ${run.get('rowOffset')}; re-run with --resume to continue`);
       throw error;
-    } finally {
-      await sequelize.close();
     }
-  }
-}
 
-(async () => {
-  try {
-    const importer = new CsvImporterService();
-    const result = await importer.import();
-    logger.success(`✅ Import service finished with ${result} records`);
-    process.exit(0);
-  } catch (err) {
-    logger.error('Import failed:', err);
-    process.exit(1);
+    importFilesTotal.inc(1, { outcome: 'imported' });
+    logger.success(
+      `Import complete! ${stats.inserted} inserted, ${stats.updated} updated, ` +
+      `${stats.unchanged} unchanged (from ${stats.rows} rows)`,
+      { file: entry.label, rows: stats.rows, inserted: stats.inserted, updated: stats.updated, unchanged: stats.unchanged }
+    );
+    return stats;
   }
-})();
\ No newline at end of file
+}
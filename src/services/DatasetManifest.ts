@@ -0,0 +1,82 @@
+// src/services/DatasetManifest.ts
+
+import fs from 'fs';
+import path from 'path';
+import { AppError } from '../utils/ErrorHandler';
+
+export interface DatasetVersionEntry {
+  label: string;                 // Folder name under versions/, e.g. "v3" or "20240101T120000Z"
+  sourceUrl: string;
+  datasetVersion: number | null; // Upstream version number when the source reports one
+  fileName: string;
+  path: string;                  // Relative to the download directory
+  size: number;
+  sha256: string;
+  downloadedAt: string;
+}
+
+interface ManifestFile {
+  current: string | null;        // label of the version the importer should use
+  versions: DatasetVersionEntry[];
+}
+
+/**
+ * manifest.json in the download directory: one entry per downloaded
+ * version of the dataset, each kept in its own versions/<label>/ folder.
+ */
+export class DatasetManifest {
+  private filePath: string;
+  private data: ManifestFile;
+
+  constructor(private downloadDir: string) {
+    this.filePath = path.join(downloadDir, 'manifest.json');
+    this.data = this.load();
+  }
+
+  private load(): ManifestFile {
+    if (!fs.existsSync(this.filePath)) {
+      return { current: null, versions: [] };
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as ManifestFile;
+    } catch (error: any) {
+      throw new AppError(
+        'CORRUPT_MANIFEST',
+        500,
+        `Could not read dataset manifest at ${this.filePath}: ${error.message}`
+      );
+    }
+  }
+
+  private save(): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.data, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  get versions(): DatasetVersionEntry[] {
+    return [...this.data.versions];
+  }
+
+  /** The current version, if its file is still on disk. */
+  current(): DatasetVersionEntry | null {
+    const entry = this.data.versions.find(v => v.label === this.data.current);
+    return entry && fs.existsSync(this.absolutePath(entry)) ? entry : null;
+  }
+
+  absolutePath(entry: DatasetVersionEntry): string {
+    return path.join(this.downloadDir, entry.path);
+  }
+
+  hasLabel(label: string): boolean {
+    return this.data.versions.some(v => v.label === label);
+  }
+
+  /** Adds a version and makes it current. */
+  record(entry: DatasetVersionEntry): void {
+    this.data.versions.push(entry);
+    this.data.current = entry.label;
+    this.save();
+  }
+}
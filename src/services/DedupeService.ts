@@ -0,0 +1,111 @@
+// src/services/DedupeService.ts
+
+import { Op } from 'sequelize';
+import { sequelize } from '../config/DatabaseConfig.js';
+import { logger } from '../utils/Logger';
+import { handleError } from '../utils/ErrorHandler';
+import BabyName from '../models/BabyNameModel';
+import {
+  BabyNameRepository,
+  DuplicateRow,
+  babyNameRepository,
+  naturalKey,
+} from '../repositories/BabyNameRepository';
+
+export interface DedupeResult {
+  groups: number;
+  removed: number;
+}
+
+/**
+ * Collapses rows that share (name, sex, year), left behind by imports that
+ * inserted instead of upserting. Per group it keeps one row: the lowest id
+ * already linked to HubSpot, else the lowest id. The kept row takes the
+ * count of the most recently updated duplicate.
+ */
+export class DedupeService {
+  constructor(
+    private repository: BabyNameRepository = babyNameRepository,
+    private groupsPerPass: number = 500
+  ) {}
+
+  private planGroup(rows: DuplicateRow[]): { keep: DuplicateRow; remove: number[]; count: number } {
+    const keep = rows.find(r => r.hubspotId) ?? rows[0];
+    const latest = rows.reduce((a, b) => (new Date(b.updatedAt) > new Date(a.updatedAt) ? b : a));
+    return {
+      keep,
+      remove: rows.filter(r => r.id !== keep.id).map(r => r.id),
+      count: latest.count,
+    };
+  }
+
+  async dedupe(options: { dryRun?: boolean } = {}): Promise<DedupeResult> {
+    try {
+      await sequelize.authenticate();
+
+      const { groups, extraRows } = await this.repository.countDuplicates();
+      if (groups === 0) {
+        logger.success('No duplicate rows found');
+        return { groups: 0, removed: 0 };
+      }
+
+      logger.info(`Found ${groups} duplicated (name, sex, year) groups with ${extraRows} surplus rows`);
+      if (options.dryRun) {
+        logger.info('Dry run: nothing changed');
+        return { groups, removed: 0 };
+      }
+
+      const result: DedupeResult = { groups: 0, removed: 0 };
+
+      // Each pass removes the groups it reads, so the next pass sees new ones
+      while (true) {
+        const rows = await this.repository.findDuplicateRows(this.groupsPerPass);
+        if (rows.length === 0) {
+          break;
+        }
+
+        const byKey = new Map<string, DuplicateRow[]>();
+        for (const row of rows) {
+          const key = naturalKey(row);
+          byKey.set(key, [...(byKey.get(key) ?? []), row]);
+        }
+
+        const removedBefore = result.removed;
+        await sequelize.transaction(async (transaction) => {
+          for (const group of byKey.values()) {
+            if (group.length < 2) {
+              continue;
+            }
+
+            const plan = this.planGroup(group);
+            // SyncFailures for the removed rows go with them (ON DELETE CASCADE)
+            await BabyName.destroy({ where: { id: { [Op.in]: plan.remove } }, transaction, logging: false });
+
+            if (plan.count !== plan.keep.count) {
+              await BabyName.update(
+                { count: plan.count },
+                { where: { id: plan.keep.id }, transaction, logging: false }
+              );
+            }
+
+            result.groups++;
+            result.removed += plan.remove.length;
+          }
+        });
+
+        if (result.removed === removedBefore) {
+          // The collation matched rows that naturalKey() tells apart; leave them for a manual look
+          logger.warn('Remaining duplicate groups differ in ways the key does not fold; stopping');
+          break;
+        }
+        logger.info(`Deduplicated ${result.groups} groups (${result.removed} rows removed)...`);
+      }
+
+      logger.success(`Dedupe complete: ${result.removed} duplicate rows removed from ${result.groups} groups`);
+      return result;
+    } catch (error) {
+      await handleError(error, 'Dedupe', 'Failed to deduplicate BabyNames');
+      throw error;
+    }
+  }
+}
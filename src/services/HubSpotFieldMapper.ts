@@ -0,0 +1,193 @@
+// src/services/HubSpotFieldMapper.ts
+
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/Logger';
+import { AppError } from '../utils/ErrorHandler';
+import { HubSpotClient } from '../clients/HubSpotClient';
+import BabyName from '../models/BabyNameModel';
+import {
+  HubSpotMappingConfig,
+  PropertyMapping,
+  TransformName,
+  defaultContactMapping,
+} from '../config/HubSpotMappingConfig';
+
+const TRANSFORMS: Record<TransformName, (value: string) => string> = {
+  trim: v => v.trim(),
+  lower: v => v.toLowerCase(),
+  upper: v => v.toUpperCase(),
+  dotted: v => v.trim().replace(/\s+/g, '.'),
+  slug: v => v.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''),
+  string: v => v,
+};
+
+const PLACEHOLDER = /\{\{\s*([^}]+?)\s*\}\}/g;
+
+export class HubSpotFieldMapper {
+  readonly idProperty: string;
+  private config: HubSpotMappingConfig;
+
+  constructor(config: HubSpotMappingConfig = defaultContactMapping) {
+    HubSpotFieldMapper.validate(config);
+    this.config = config;
+    this.idProperty = config.idProperty;
+  }
+
+  /** Loads a JSON mapping file, or the built-in contact mapping when no path is given. */
+  static load(filePath?: string, fallback: HubSpotMappingConfig = defaultContactMapping): HubSpotFieldMapper {
+    if (!filePath) {
+      return new HubSpotFieldMapper(fallback);
+    }
+
+    const resolved = path.resolve(filePath);
+    if (!fs.existsSync(resolved)) {
+      throw new AppError('MAPPING_NOT_FOUND', 404, `HubSpot mapping file not found: ${resolved}`);
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(resolved, 'utf8'));
+    } catch (error: any) {
+      throw new AppError('INVALID_MAPPING', 400, `Could not parse ${resolved}: ${error.message}`);
+    }
+
+    logger.info(`Using HubSpot field mapping from ${resolved}`);
+    return new HubSpotFieldMapper(raw as HubSpotMappingConfig);
+  }
+
+  static validate(config: HubSpotMappingConfig): void {
+    const errors: string[] = [];
+    const attributes = Object.keys(BabyName.getAttributes());
+
+    const checkSource = (where: string, source: string, transforms: string[] = []) => {
+      if (!attributes.includes(source)) {
+        errors.push(`${where}: unknown source field "${source}" (expected one of ${attributes.join(', ')})`);
+      }
+      for (const t of transforms) {
+        if (!(t in TRANSFORMS)) {
+          errors.push(`${where}: unknown transform "${t}"`);
+        }
+      }
+    };
+
+    if (!config || typeof config !== 'object' || typeof config.properties !== 'object' || config.properties === null) {
+      throw new AppError('INVALID_MAPPING', 400, 'HubSpot mapping must be an object with "idProperty" and "properties"');
+    }
+
+    if (typeof config.idProperty !== 'string' || !(config.idProperty in config.properties)) {
+      errors.push(`idProperty "${config.idProperty}" must be one of the mapped properties`);
+    }
+
+    for (const [property, mapping] of Object.entries(config.properties)) {
+      const where = `properties.${property}`;
+      const kinds = ['source', 'template', 'value'].filter(k => mapping && k in mapping);
+
+      if (kinds.length !== 1) {
+        errors.push(`${where}: must define exactly one of "source", "template" or "value"`);
+        continue;
+      }
+
+      if ('source' in mapping) {
+        checkSource(where, mapping.source, mapping.transforms);
+      } else if ('template' in mapping) {
+        const placeholders = [...mapping.template.matchAll(PLACEHOLDER)];
+        if (placeholders.length === 0) {
+          errors.push(`${where}: template has no {{field}} placeholders; use "value" for constants`);
+        }
+        for (const [, expr] of placeholders) {
+          const [source, ...transforms] = expr.split('|').map(p => p.trim());
+          checkSource(where, source, transforms);
+        }
+      } else if (!['string', 'number', 'boolean'].includes(typeof mapping.value)) {
+        errors.push(`${where}: "value" must be a string, number or boolean`);
+      }
+    }
+
+    const seen = new Set<string>();
+    for (const def of config.customProperties ?? []) {
+      for (const key of ['name', 'label', 'type', 'fieldType', 'groupName'] as const) {
+        if (typeof def[key] !== 'string' || !def[key]) {
+          errors.push(`customProperties.${def.name ?? '?'}: "${key}" is required`);
+        }
+      }
+      if (seen.has(def.name)) {
+        errors.push(`customProperties.${def.name}: defined more than once`);
+      }
+      seen.add(def.name);
+    }
+
+    if (errors.length > 0) {
+      throw new AppError('INVALID_MAPPING', 400, `Invalid HubSpot mapping:\n  - ${errors.join('\n  - ')}`);
+    }
+  }
+
+  private resolveSource(record: any, source: string, transforms: TransformName[] = []): string | null {
+    const raw = record[source];
+    if (raw === null || raw === undefined) {
+      return null;
+    }
+    return transforms.reduce((value, t) => TRANSFORMS[t](value), String(raw));
+  }
+
+  private resolve(record: any, mapping: PropertyMapping): string | number | boolean | null {
+    if ('value' in mapping) {
+      return mapping.value;
+    }
+
+    if ('template' in mapping) {
+      return mapping.template.replace(PLACEHOLDER, (_, expr: string) => {
+        const [source, ...transforms] = expr.split('|').map(p => p.trim());
+        return this.resolveSource(record, source, transforms as TransformName[]) ?? '';
+      });
+    }
+
+    const value = this.resolveSource(record, mapping.source, mapping.transforms);
+    if (value === null || value === '') {
+      return mapping.default ?? null;
+    }
+    return mapping.map?.[value] ?? value;
+  }
+
+  /** Builds the HubSpot `properties` object for one BabyName row. */
+  map(record: any): Record<string, any> {
+    const properties: Record<string, any> = {};
+    for (const [property, mapping] of Object.entries(this.config.properties)) {
+      const value = this.resolve(record, mapping);
+      if (value !== null) {
+        properties[property] = value;
+      }
+    }
+    return properties;
+  }
+
+  /**
+   * Pre-flight check against the Properties API: creates any missing
+   * customProperties, then fails if a mapped property still doesn't exist.
+   */
+  async ensureProperties(client: HubSpotClient, objectType: string): Promise<void> {
+    const response = await client.get(`/crm/v3/properties/${objectType}`);
+    const existing = new Set<string>((response.data?.results ?? []).map((p: any) => p.name));
+
+    for (const def of this.config.customProperties ?? []) {
+      if (existing.has(def.name)) {
+        continue;
+      }
+
+      logger.info(`Creating HubSpot ${objectType} property "${def.name}"`);
+      await client.post(`/crm/v3/properties/${objectType}`, def);
+      existing.add(def.name);
+    }
+
+    const missing = Object.keys(this.config.properties).filter(name => !existing.has(name));
+    if (missing.length > 0) {
+      throw new AppError(
+        'UNKNOWN_HUBSPOT_PROPERTY',
+        400,
+        `HubSpot ${objectType} has no properties named ${missing.join(', ')}; add them to customProperties in the mapping`
+      );
+    }
+
+    logger.success(`HubSpot ${objectType} properties verified (${Object.keys(this.config.properties).length} mapped)`);
+  }
+}
@@ -0,0 +1,97 @@
+// src/services/HubSpotSchemaService.ts
+
+import { logger } from '../utils/Logger';
+import { AppError } from '../utils/ErrorHandler';
+import { HubSpotClient } from '../clients/HubSpotClient';
+import { CustomPropertyDefinition } from '../config/HubSpotMappingConfig';
+
+export const BABY_NAME_OBJECT_PROPERTIES: CustomPropertyDefinition[] = [
+  {
+    name: 'baby_name_key',
+    label: 'Baby name key',
+    type: 'string',
+    fieldType: 'text',
+    groupName: 'baby_name_information',
+    description: 'Unique name/sex/year key used for upserts',
+    hasUniqueValue: true,
+  },
+  { name: 'name', label: 'Name', type: 'string', fieldType: 'text', groupName: 'baby_name_information' },
+  {
+    name: 'sex',
+    label: 'Sex',
+    type: 'enumeration',
+    fieldType: 'select',
+    groupName: 'baby_name_information',
+    options: [
+      { label: 'Male', value: 'M' },
+      { label: 'Female', value: 'F' },
+    ],
+  },
+  { name: 'year', label: 'Year of birth', type: 'number', fieldType: 'number', groupName: 'baby_name_information' },
+  { name: 'count', label: 'Count', type: 'number', fieldType: 'number', groupName: 'baby_name_information' },
+];
+
+export class HubSpotSchemaService {
+  constructor(
+    private client: HubSpotClient,
+    private objectName: string = 'baby_name'
+  ) {}
+
+  private async findSchema(): Promise<any | null> {
+    const response = await this.client.get('/crm/v3/schemas');
+    return (response.data?.results ?? []).find((schema: any) => schema.name === this.objectName) ?? null;
+  }
+
+  /**
+   * Returns the objectTypeId (e.g. "2-1234567") used in
+   * /crm/v3/objects/{objectType} paths. Fails if the schema doesn't exist.
+   */
+  async resolveObjectType(): Promise<string> {
+    const schema = await this.findSchema();
+    if (!schema) {
+      throw new AppError(
+        'HUBSPOT_SCHEMA_MISSING',
+        404,
+        `HubSpot custom object "${this.objectName}" does not exist; run \`npm run hubspot:schema\` first`
+      );
+    }
+    return schema.objectTypeId;
+  }
+
+  /** Creates the custom object schema, or adds any properties an existing one lacks. */
+  async ensureSchema(): Promise<string> {
+    const schema = await this.findSchema();
+
+    if (!schema) {
+      logger.info(`Creating HubSpot custom object schema "${this.objectName}"`);
+      const response = await this.client.post('/crm/v3/schemas', {
+        name: this.objectName,
+        labels: { singular: 'Baby Name', plural: 'Baby Names' },
+        primaryDisplayProperty: 'name',
+        secondaryDisplayProperties: ['year'],
+        requiredProperties: ['baby_name_key', 'name'],
+        searchableProperties: ['name', 'baby_name_key'],
+        // Schema properties land in HubSpot's default "<name>_information" group
+        properties: BABY_NAME_OBJECT_PROPERTIES.map(({ groupName, ...property }) => property),
+        associatedObjects: [],
+      });
+
+      logger.success(`Created schema "${this.objectName}" (${response.data.objectTypeId})`);
+      return response.data.objectTypeId;
+    }
+
+    const existing = new Set<string>((schema.properties ?? []).map((p: any) => p.name));
+    const missing = BABY_NAME_OBJECT_PROPERTIES.filter(p => !existing.has(p.name));
+
+    for (const property of missing) {
+      logger.info(`Adding missing property "${property.name}" to ${this.objectName}`);
+      await this.client.post(`/crm/v3/properties/${schema.objectTypeId}`, property);
+    }
+
+    logger.success(
+      `Schema "${this.objectName}" verified (${schema.objectTypeId}` +
+      `${missing.length > 0 ? `, ${missing.length} properties added` : ''})`
+    );
+    return schema.objectTypeId;
+  }
+}
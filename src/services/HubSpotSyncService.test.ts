@@ -0,0 +1,112 @@
+// src/services/HubSpotSyncService.test.ts
+
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { HubSpotMockServer } from '../testing/HubSpotMockServer';
+
+// The database and config are read on import, so point them at a scratch SQLite file first
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hubspot-sync-test-'));
+process.env.DB_DIALECT = 'sqlite';
+process.env.DB_STORAGE = path.join(tmpDir, 'sync.sqlite');
+process.env.HUBSPOT_ACCESS_TOKEN = 'mock-token';
+process.env.HUBSPOT_SYNC_MODE = 'contacts';
+delete process.env.HUBSPOT_MAPPING_FILE;
+
+const { sequelize } = await import('../config/DatabaseConfig.js');
+const { MigrationRunner } = await import('../database/MigrationRunner');
+const { default: BabyName } = await import('../models/BabyNameModel');
+const { default: SyncFailure } = await import('../models/SyncFailureModel');
+const { HubSpotSyncService } = await import('./HubSpotSyncService');
+
+describe('HubSpotSyncService against the HubSpot mock', () => {
+  const server = new HubSpotMockServer();
+  let baseURL: string;
+
+  const seed = (rows: [name: string, sex: 'M' | 'F', year: number][]) =>
+    BabyName.bulkCreate(rows.map(([name, sex, year]) => ({ name, sex, year, count: 100 })));
+
+  const upsertStatuses = () =>
+    server.requestLog.filter(entry => entry.path.endsWith('/batch/upsert')).map(entry => entry.status);
+
+  const contacts = () => server.objects.get('contacts') ?? new Map();
+
+  before(async () => {
+    await new MigrationRunner(sequelize).up();
+    baseURL = await server.start();
+  });
+
+  after(async () => {
+    await server.stop();
+    await sequelize.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    server.reset();
+    await SyncFailure.destroy({ where: {} });
+    await BabyName.destroy({ where: {} });
+  });
+
+  it('upserts new rows and records their HubSpot ids', async () => {
+    await seed([['Mary', 'F', 1880], ['Mary', 'F', 1881], ['John', 'M', 1880]]);
+
+    const synced = await new HubSpotSyncService({ baseURL }).sync();
+
+    assert.equal(synced, 3);
+    // Both years of Mary are one contact, sent once in a single batch
+    assert.deepEqual(upsertStatuses(), [200]);
+    assert.deepEqual(
+      [...contacts().values()].map(contact => contact.properties.email).sort(),
+      ['john.m@babynamesdemo.com', 'mary.f@babynamesdemo.com']
+    );
+    for (const row of await BabyName.findAll()) {
+      assert.ok(row.get('hubspotId'));
+      assert.ok(row.get('syncedAt'));
+    }
+  });
+
+  it('sends nothing on a second sync when no row changed', async () => {
+    await seed([['Anna', 'F', 1880], ['William', 'M', 1880]]);
+    await new HubSpotSyncService({ baseURL }).sync();
+    server.requestLog.length = 0;
+
+    const synced = await new HubSpotSyncService({ baseURL }).sync();
+
+    assert.equal(synced, 0);
+    assert.deepEqual(upsertStatuses(), []);
+  });
+
+  it('retries a batch that HubSpot rate-limits', async () => {
+    await seed([['Anna', 'F', 1880], ['William', 'M', 1880]]);
+    server.injectFault(429, 1, { path: '/batch/upsert', retryAfterSeconds: 0 });
+
+    const synced = await new HubSpotSyncService({ baseURL }).sync();
+
+    assert.equal(synced, 2);
+    assert.deepEqual(upsertStatuses(), [429, 200]);
+    assert.equal(contacts().size, 2);
+  });
+
+  it('splits a rejected batch until the bad record lands in SyncFailures', async () => {
+    await seed([['Anna', 'F', 1880], ['John', 'M', 1880], ['Mary', 'F', 1880], ['William', 'M', 1880]]);
+    server.injectFault(400, 10, { inputId: 'mary.f@babynamesdemo.com' });
+
+    const synced = await new HubSpotSyncService({ baseURL }).sync();
+
+    assert.equal(synced, 3);
+    // [Anna, John, Mary, William] → [Anna, John] ok, [Mary, William] → [Mary] rejected, [William] ok
+    assert.deepEqual(upsertStatuses(), [400, 200, 400, 400, 200]);
+
+    const mary = await BabyName.findOne({ where: { name: 'Mary' } });
+    const failures = await SyncFailure.findAll();
+    assert.equal(failures.length, 1);
+    assert.equal(failures[0].get('babyNameId'), mary!.get('id'));
+    assert.equal(failures[0].get('errorStatus'), 400);
+    assert.equal(failures[0].get('resolvedAt'), null);
+    assert.equal(mary!.get('syncedAt'), null);
+    assert.equal(contacts().size, 3);
+  });
+});
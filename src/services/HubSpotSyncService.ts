@@ -1,183 +1,357 @@
 // src/services/HubSpotSyncService.ts
 
-import axios, { AxiosInstance } from 'axios';
+import { createHash } from 'crypto';
+import { Op, WhereOptions, col, literal, where } from 'sequelize';
 import { sequelize } from '../config/DatabaseConfig.js';
 import { envConfig } from '../config/EnvConfig';
-import { logger } from '../utils/Logger';
+import { logger as rootLogger } from '../utils/Logger';
 import { handleError, AppError } from '../utils/ErrorHandler';
+import { babyNameRepository } from '../repositories/BabyNameRepository';
+import { quote } from '../database/Dialect';
+import { HubSpotClient } from '../clients/HubSpotClient';
 import BabyName from '../models/BabyNameModel';
+import SyncFailure from '../models/SyncFailureModel';
+import { HubSpotFieldMapper } from './HubSpotFieldMapper';
+import { HubSpotSchemaService } from './HubSpotSchemaService';
+import { defaultMappingFor } from '../config/HubSpotMappingConfig';
+import { syncBatchDuration, syncRecordsTotal } from './PipelineMetrics';
+
+const logger = rootLogger.child({ service: 'HubSpotSync' });
+
+interface PendingContact {
+  record: any;
+  contact: Record<string, any>;
+  hash: string;
+}
+
+interface RejectedContact {
+  entry: PendingContact;
+  status: number | null;
+  message: string;
+  payload: unknown;
+}
+
+interface UpsertOutcome {
+  succeeded: PendingContact[];
+  hubspotIds: Map<string, string>;
+  rejected: RejectedContact[];
+}
+
+export interface HubSpotSyncServiceOptions {
+  baseURL?: string;        // Defaults to HUBSPOT_API_BASE_URL, e.g. a local mock server
+  accessToken?: string;
+}
+
+export interface SyncOptions {
+  retryFailed?: boolean;   // Re-drive only records in SyncFailures
+}
+
+// Statuses that mean HubSpot refused the input itself, so bisecting can isolate the culprit
+const INPUT_ERROR_STATUSES = [400, 409, 422];
+
+const openFailureIds = () =>
+  literal(`(SELECT ${quote('babyNameId')} FROM ${quote('SyncFailures')} WHERE ${quote('resolvedAt')} IS NULL)`);
 
 export class HubSpotSyncService {
-  private hubspotApiKey: string;
-  private hubspotClient: AxiosInstance;
+  private hubspotClient: HubSpotClient;
+  private mapper: HubSpotFieldMapper;
+  private mode: 'contacts' | 'custom_object';
+  private objectType: string = 'contacts';  // Resolved to the custom objectTypeId in custom-object mode
   private batchSize: number = 100; // HubSpot batch limit
 
-  constructor() {
-    this.hubspotApiKey = envConfig.hubspot.accessToken;
+  constructor(options: HubSpotSyncServiceOptions = {}) {
+    this.hubspotClient = new HubSpotClient({
+      accessToken: options.accessToken ?? envConfig.hubspot.accessToken,
+      baseURL: options.baseURL ?? envConfig.hubspot.apiBaseUrl,
+      maxRequests: envConfig.hubspot.rateLimitMaxRequests,
+      intervalMs: envConfig.hubspot.rateLimitIntervalMs,
+      maxRetries: envConfig.hubspot.maxRetries,
+    });
 
-    if (!this.hubspotApiKey) {
-      throw new AppError(
-        'MISSING_CONFIG',
-        400,
-        'HubSpot API key not configured in environment'
-      );
-    }
+    this.mode = envConfig.hubspot.syncMode;
 
-   
-    this.hubspotClient = axios.create({
-      baseURL: 'https://api.hubapi.com',
-      headers: { 
-        'Authorization': `Bearer ${this.hubspotApiKey}`,
-        'Content-Type': 'application/json',
-      },
-    });
+    // Fails fast on an invalid mapping, before any rows are read
+    this.mapper = HubSpotFieldMapper.load(envConfig.hubspot.mappingFile, defaultMappingFor(this.mode));
   }
 
   private formatContactForHubSpot(babyName: any): Record<string, any> {
-    // Generate a unique email to use as identifier for upsert
-    const email = `${babyName.name.toLowerCase().replace(/\s+/g, '.')}.${babyName.sex.toLowerCase()}@babynamesdemo.com`;
-    
+    return { properties: this.mapper.map(babyName) };
+  }
+
+  /** Upsert identity of a formatted contact, normalised the way HubSpot echoes it back. */
+  private identityOf(contact: Record<string, any>): string {
+    return String(contact.properties[this.mapper.idProperty]).toLowerCase();
+  }
+
+  private hashContact(contact: Record<string, any>): string {
+    return createHash('sha256').update(JSON.stringify(contact.properties)).digest('hex');
+  }
+
+  /**
+   * Rows that have never been synced, or that changed since their last sync.
+   * Rows with an open SyncFailure are left to `--retry-failed`.
+   */
+  private pendingWhere(): WhereOptions {
     return {
-      properties: {
-        email: email,
-        firstname: babyName.name,
-        lastname: babyName.sex === 'M' ? 'Male' : 'Female',
-        hs_lead_status: 'NEW',
-        lifecyclestage: 'subscriber',
-      },
+      id: { [Op.notIn]: openFailureIds() },
+      [Op.or]: [
+        { syncedAt: null },
+        where(col('updatedAt'), Op.gt, col('syncedAt')),
+      ],
     };
   }
 
-  async sync(): Promise<number> {
+  private failedWhere(): WhereOptions {
+    return { id: { [Op.in]: openFailureIds() } };
+  }
+
+  /**
+   * Records the HubSpot id and property hash for each row in one transaction.
+   * updatedAt is pinned to syncedAt (`silent` stops Sequelize from bumping
+   * it) so the row doesn't look changed again.
+   */
+  private async markSynced(entries: PendingContact[], hubspotIds: Map<string, string>): Promise<void> {
+    const syncedAt = new Date();
+
+    await sequelize.transaction(async (transaction) => {
+      for (const entry of entries) {
+        const hubspotId = hubspotIds.get(this.identityOf(entry.contact)) ?? entry.record.hubspotId ?? null;
+        await BabyName.update(
+          { hubspotId, syncHash: entry.hash, syncedAt, updatedAt: syncedAt },
+          { where: { id: entry.record.id }, silent: true, transaction, logging: false }
+        );
+      }
+    });
+  }
+
+  /**
+   * Upserts a batch; when HubSpot rejects it as invalid, splits it in half and
+   * retries each half until the offending inputs are isolated, so one bad record
+   * doesn't sink the other 99.
+   */
+  private async upsertIsolatingFailures(entries: PendingContact[]): Promise<UpsertOutcome> {
+    const outcome: UpsertOutcome = { succeeded: [], hubspotIds: new Map(), rejected: [] };
+
+    try {
+      const data = await this.sendBatchToHubSpot(entries.map(entry => entry.contact));
+      for (const result of data.results ?? []) {
+        const identity = result?.properties?.[this.mapper.idProperty];
+        if (result?.id && identity !== undefined && identity !== null) {
+          outcome.hubspotIds.set(String(identity).toLowerCase(), String(result.id));
+        }
+      }
+
+      // 207 Multi-Status: inputs missing from results were rejected individually
+      const errors = data.errors ?? [];
+      for (const entry of entries) {
+        if (errors.length > 0 && !outcome.hubspotIds.has(this.identityOf(entry.contact))) {
+          outcome.rejected.push({ entry, status: 207, message: errors[0]?.message ?? 'Rejected in multi-status response', payload: errors });
+        } else {
+          outcome.succeeded.push(entry);
+        }
+      }
+      return outcome;
+    } catch (error: any) {
+      const status = error.response?.status;
+      if (error instanceof AppError || !INPUT_ERROR_STATUSES.includes(status)) {
+        throw error;
+      }
+
+      if (entries.length === 1) {
+        outcome.rejected.push({
+          entry: entries[0],
+          status,
+          message: error.response?.data?.message ?? error.message,
+          payload: error.response?.data ?? null,
+        });
+        return outcome;
+      }
+
+      logger.warn(`HubSpot rejected batch of ${entries.length} (${status}), splitting to isolate bad records`);
+      const mid = Math.ceil(entries.length / 2);
+      for (const half of [entries.slice(0, mid), entries.slice(mid)]) {
+        const partial = await this.upsertIsolatingFailures(half);
+        outcome.succeeded.push(...partial.succeeded);
+        outcome.rejected.push(...partial.rejected);
+        partial.hubspotIds.forEach((id, identity) => outcome.hubspotIds.set(identity, id));
+      }
+      return outcome;
+    }
+  }
+
+  private async recordFailures(rejected: RejectedContact[]): Promise<void> {
+    for (const { entry, status, message, payload } of rejected) {
+      logger.warn(`HubSpot rejected record ${entry.record.id} (${entry.record.name}): ${message}`);
+
+      const fields = {
+        payload: entry.contact,
+        errorStatus: status,
+        errorMessage: message,
+        errorPayload: payload,
+        resolvedAt: null,
+      };
+
+      const existing = await SyncFailure.findOne({ where: { babyNameId: entry.record.id }, logging: false });
+      if (existing) {
+        await existing.update({ ...fields, attempts: (existing.get('attempts') as number) + 1 }, { logging: false });
+      } else {
+        await SyncFailure.create({ babyNameId: entry.record.id, ...fields }, { logging: false });
+      }
+    }
+  }
+
+  private async resolveFailures(entries: PendingContact[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    await SyncFailure.update(
+      { resolvedAt: new Date() },
+      {
+        where: { babyNameId: entries.map(entry => entry.record.id), resolvedAt: null },
+        logging: false,
+      }
+    );
+  }
+
+  private async flushBatch(batch: PendingContact[]): Promise<{ synced: number; failed: number }> {
+    const endTimer = syncBatchDuration.startTimer();
+    // Rows whose properties hash matches the last sync only need their timestamp bumped
+    const changed = batch.filter(entry => entry.hash !== entry.record.syncHash || !entry.record.hubspotId);
+    const unchanged = batch.filter(entry => !changed.includes(entry));
+
+    const outcome: UpsertOutcome = changed.length > 0
+      ? await this.upsertIsolatingFailures(changed)
+      : { succeeded: [], hubspotIds: new Map(), rejected: [] };
+
+    const done = [...unchanged, ...outcome.succeeded];
+    await this.markSynced(done, outcome.hubspotIds);
+    await this.resolveFailures(done);
+    await this.recordFailures(outcome.rejected);
+
+    if (unchanged.length > 0) {
+      logger.debug(`${unchanged.length} records unchanged since last sync, not re-sent`);
+    }
+    syncRecordsTotal.inc(outcome.succeeded.length, { outcome: 'synced' });
+    syncRecordsTotal.inc(unchanged.length, { outcome: 'unchanged' });
+    syncRecordsTotal.inc(outcome.rejected.length, { outcome: 'failed' });
+    endTimer();
+    return { synced: outcome.succeeded.length, failed: outcome.rejected.length };
+  }
+
+  async sync(options: SyncOptions = {}): Promise<number> {
     try {
       await sequelize.authenticate();
       logger.success('Database connected');
 
-      //  Sync limit from environment or default to 900 (safe for free HubSpot)
-      const maxContactsToSync = parseInt(process.env.HUBSPOT_SYNC_LIMIT || '900');
-      logger.info(`Starting HubSpot sync (Max: ${maxContactsToSync} contacts)...`);
+      if (this.mode === 'custom_object') {
+        const schemas = new HubSpotSchemaService(this.hubspotClient, envConfig.hubspot.customObjectName);
+        this.objectType = await schemas.resolveObjectType();
+        logger.info(`Syncing to custom object ${envConfig.hubspot.customObjectName} (${this.objectType})`);
+      }
+
+      await this.mapper.ensureProperties(this.hubspotClient, this.objectType);
+
+      const maxContactsToSync = envConfig.hubspot.syncLimit;
+      logger.info(
+        `Starting HubSpot sync${options.retryFailed ? ' of previously failed records' : ''} ` +
+        `(Max: ${maxContactsToSync} contacts)...`
+      );
 
       let totalSynced = 0;
-      let currentBatch: any[] = [];
-      let offset = 0;
-      const pageSize = 5000; // Fetch in chunks
-
-      // Process records in pages to avoid memory issues
-      while (totalSynced < maxContactsToSync) {
-        //  Calculate remaining contacts to fetch
-        const remainingToSync = maxContactsToSync - totalSynced;
-        const fetchLimit = Math.min(pageSize, remainingToSync);
-        
-        logger.info(`Fetching records: offset ${offset}, limit ${fetchLimit}`);
-
-        const records = await BabyName.findAll({
-          limit: fetchLimit,
-          offset: offset,
-          raw: true,
-          logging: false,
-        });
+      let totalFailed = 0;
+      let totalProcessed = 0;
+      let currentBatch: PendingContact[] = [];
 
-        if (records.length === 0) {
-          // Process final batch if any
-          if (currentBatch.length > 0) {
-            await this.sendBatchToHubSpot(currentBatch);
-            totalSynced += currentBatch.length;
-            currentBatch = [];
-          }
+      // Only new or changed rows are read, so a killed sync resumes where it stopped
+      const filter = options.retryFailed ? this.failedWhere() : this.pendingWhere();
+      for await (const record of babyNameRepository.rows({ where: filter, pageSize: 5000 })) {
+        if (totalProcessed >= maxContactsToSync) {
           break;
         }
 
-        // Add records to current batch
-        for (const record of records) {
-          //  Stop if we've reached the limit
-          if (totalSynced >= maxContactsToSync) {
-            logger.info(`Reached sync limit of ${maxContactsToSync} contacts`);
-            break;
-          }
-
-          const formattedContact = this.formatContactForHubSpot(record);
-          currentBatch.push(formattedContact);
+        const contact = this.formatContactForHubSpot(record);
+        currentBatch.push({ record, contact, hash: this.hashContact(contact) });
+        totalProcessed++;
 
-          // Send batch when it reaches the limit
-          if (currentBatch.length >= this.batchSize) {
-            await this.sendBatchToHubSpot(currentBatch);
-            totalSynced += currentBatch.length;
+        // Send batch when it reaches the limit
+        if (currentBatch.length >= this.batchSize) {
+          const result = await this.flushBatch(currentBatch);
+          totalSynced += result.synced;
+          totalFailed += result.failed;
+          currentBatch = [];
 
-            if (totalSynced % 10000 === 0) {
-              logger.info(`Synced ${totalSynced} records to HubSpot...`);
-            }
-
-            currentBatch = [];
+          if (totalProcessed % 10000 === 0) {
+            logger.info(`Processed ${totalProcessed} records (${totalSynced} sent to HubSpot)...`);
           }
         }
+      }
 
-        //  Break if limit reached
-        if (totalSynced >= maxContactsToSync) {
-          // Send remaining batch if any
-          if (currentBatch.length > 0) {
-            await this.sendBatchToHubSpot(currentBatch);
-            totalSynced += currentBatch.length;
-            currentBatch = [];
-          }
-          break;
-        }
+      // Send remaining batch if any
+      if (currentBatch.length > 0) {
+        const result = await this.flushBatch(currentBatch);
+        totalSynced += result.synced;
+        totalFailed += result.failed;
+        currentBatch = [];
+      }
 
-        offset += pageSize;
+      if (totalProcessed >= maxContactsToSync) {
+        logger.info(`Reached sync limit of ${maxContactsToSync} contacts; the next run continues from here`);
       }
 
-      logger.success(`✅ HubSpot sync complete! Total synced: ${totalSynced} records`);
+      this.logApiStats();
+      if (totalFailed > 0) {
+        logger.warn(`${totalFailed} records rejected by HubSpot and saved to SyncFailures; re-drive them with --retry-failed`);
+      }
+      logger.success(
+        `✅ HubSpot sync complete! Total synced: ${totalSynced} records ` +
+        `(${totalProcessed - totalSynced - totalFailed} unchanged, ${totalFailed} failed)`
+      );
       return totalSynced;
     } catch (error) {
+      this.logApiStats();
       await handleError(error, 'HubSpotSync', 'Failed to sync to HubSpot');
       throw error;
-    } finally {
-      await sequelize.close();
     }
   }
 
-  private async sendBatchToHubSpot(batch: any[]): Promise<void> {
+  private logApiStats(): void {
+    const stats = this.hubspotClient.getStats();
+    logger.info(
+      `HubSpot API: ${stats.requests} requests, ${stats.rateLimited} rate-limited (429), ` +
+      `${stats.retries} retries, ${stats.failures} failed`
+    );
+  }
+
+  private async sendBatchToHubSpot(batch: any[]): Promise<any> {
+    // HubSpot rejects a batch that repeats an ID with 400 "Duplicate IDs", and with the
+    // default contact mapping every year of a name is the same contact: send each once
+    const byIdentity = new Map<string, any>();
+    for (const contact of batch) {
+      byIdentity.set(this.identityOf(contact), contact);
+    }
+
     try {
-      const response = await this.hubspotClient.post('/crm/v3/objects/contacts/batch/upsert', {
-        inputs: batch.map((contact) => ({
-          idProperty: 'email',
-          id: contact.properties.email,
+      const response = await this.hubspotClient.post(`/crm/v3/objects/${this.objectType}/batch/upsert`, {
+        inputs: [...byIdentity.values()].map((contact) => ({
+          idProperty: this.mapper.idProperty,
+          id: contact.properties[this.mapper.idProperty],
           properties: contact.properties,
         })),
       });
 
-      logger.info(`Batch of ${batch.length} synced to HubSpot (status: ${response.status})`);
+      logger.info(
+        `Batch of ${batch.length} synced to HubSpot as ${byIdentity.size} ${this.objectType === 'contacts' ? 'contacts' : 'objects'} ` +
+        `(status: ${response.status})`
+      );
+      return response.data ?? {};
     } catch (error: any) {
-      if (error.response?.status === 401) {
-        throw new AppError(
-          'HUBSPOT_AUTH_ERROR',
-          401,
-          'Invalid HubSpot API key'
-        );
-      } else if (error.response?.status === 429) {
-        logger.info('Rate limited by HubSpot, waiting 1 second...');
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        // Retry
-        return this.sendBatchToHubSpot(batch);
-      } else if (error.response?.status === 400) {
-        logger.error(`HubSpot API error (400): ${error.response?.data?.message}`);
-        logger.error('Request data:', JSON.stringify(batch[0], null, 2));
-        throw error;
-      } else {
+      // 401, 429 and transient failures are handled (and retried) by HubSpotClient;
+      // input errors are bisected by the caller
+      if (!(error instanceof AppError) && !INPUT_ERROR_STATUSES.includes(error.response?.status)) {
         logger.error(`HubSpot API error: ${error.message}`, error.response?.data);
-        throw error;
       }
+      throw error;
     }
   }
 }
-
-(async () => {
-  try {
-    const syncer = new HubSpotSyncService();
-    const result = await syncer.sync();
-    logger.success(`✅ Sync service finished with ${result} records`);
-    process.exit(0);
-  } catch (err) {
-    logger.error('Sync failed:', err);
-    process.exit(1);
-  }
-})();
\ No newline at end of file
@@ -0,0 +1,96 @@
+// src/services/ImportRunTracker.ts
+
+import { Op, Transaction } from 'sequelize';
+import { logger } from '../utils/Logger';
+import ImportRun from '../models/ImportRunModel';
+import { InputEntry } from './formats/InputEntries';
+import { ImportStats } from './validation/ImportStats';
+
+export interface StartedRun {
+  run: ImportRun;
+  stats: ImportStats;     // Counters carried over from the checkpoint when resuming
+  skipRows: number;       // Source rows already committed by the run being resumed
+}
+
+/**
+ * Keeps the ImportRuns table: one row per attempt at a file, with the row
+ * offset and counters committed alongside each batch so a crashed or failed
+ * import can pick up after the last committed batch.
+ */
+export class ImportRunTracker {
+  /** Resumes the file's latest unfinished run when asked to, otherwise starts a new one. */
+  async start(entry: InputEntry, sha256: string, options: { resume?: boolean; bulkLoad?: boolean }): Promise<StartedRun> {
+    const unfinished = await ImportRun.findOne({
+      where: { sha256, status: { [Op.in]: ['running', 'failed'] } },
+      order: [['id', 'DESC']],
+      logging: false,
+    });
+
+    const mode = options.bulkLoad ? 'bulk' : 'batch';
+
+    if (unfinished && options.resume) {
+      const rowOffset = unfinished.get('rowOffset') as number;
+      await unfinished.update({ status: 'running', mode, errorMessage: null, finishedAt: null }, { logging: false });
+      logger.info(`Resuming import run #${unfinished.get('id')} of ${entry.label} after row ${rowOffset}`);
+      return { run: unfinished, stats: ImportStats.fromCheckpoint(unfinished.get({ plain: true })), skipRows: rowOffset };
+    }
+
+    if (unfinished) {
+      logger.warn(
+        `Import run #${unfinished.get('id')} of ${entry.label} stopped after row ${unfinished.get('rowOffset')} ` +
+        `(${unfinished.get('status')}); starting over. Use --resume to continue it instead.`
+      );
+      await unfinished.update({ status: 'failed', finishedAt: new Date() }, { logging: false });
+    }
+
+    const run = await ImportRun.create({
+      sha256,
+      fileName: entry.name,
+      archiveName: entry.archive,
+      mode,
+    }, { logging: false });
+    return { run, stats: new ImportStats(), skipRows: 0 };
+  }
+
+  private counters(stats: ImportStats) {
+    return {
+      rowOffset: stats.rows,
+      byteOffset: stats.bytes,
+      accepted: stats.accepted,
+      rejected: stats.rejected,
+      inserted: stats.inserted,
+      updated: stats.updated,
+      unchanged: stats.unchanged,
+    };
+  }
+
+  /** Call inside the transaction that commits the rows up to stats.rows. */
+  async checkpoint(run: ImportRun, stats: ImportStats, transaction: Transaction): Promise<void> {
+    await run.update(this.counters(stats), { transaction, logging: false });
+  }
+
+  async complete(run: ImportRun, stats: ImportStats, transaction?: Transaction): Promise<void> {
+    await run.update(
+      { ...this.counters(stats), status: 'completed', finishedAt: new Date() },
+      { transaction, logging: false }
+    );
+  }
+
+  /** Marks the run failed; its counters stay at the last committed checkpoint. */
+  async fail(run: ImportRun, error: unknown): Promise<void> {
+    try {
+      await run.update(
+        {
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : String(error),
+          finishedAt: new Date(),
+        },
+        { logging: false }
+      );
+      // Drop counters from a batch whose transaction rolled back
+      await run.reload({ logging: false });
+    } catch (updateError: any) {
+      logger.error(`Could not mark import run #${run.get('id')} as failed: ${updateError.message}`);
+    }
+  }
+}
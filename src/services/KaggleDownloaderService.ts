@@ -1,35 +1,73 @@
 // src/services/KaggleDownloaderService.ts
 
-import { chromium } from 'playwright';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { envConfig } from '../config/EnvConfig';
 import { logger } from '../utils/Logger';
 import { handleError, AppError } from '../utils/ErrorHandler';
+import { DatasetDownloader } from './downloaders/DatasetDownloader';
+import { KaggleApiDownloader } from './downloaders/KaggleApiDownloader';
+import { KaggleBrowserDownloader } from './downloaders/KaggleBrowserDownloader';
+import { DatasetManifest } from './DatasetManifest';
+import { sha256File } from '../utils/Checksum';
+import { downloadAttemptsTotal, downloadBytes, downloadDuration, downloadsTotal } from './PipelineMetrics';
+
+export type DownloadStrategy = 'api' | 'browser' | 'auto';
+
+export interface DownloadOptions {
+  force?: boolean;       // Always download; kept as a new version only if its SHA-256 differs
+  ifChanged?: boolean;   // Download only when upstream differs from the current version
+}
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 export class KaggleDownloaderService {
   private downloadDir: string;
-  private email: string;
-  private password: string;
-  private datasetUrl: string;
-
-  constructor() {
+  private strategy: DownloadStrategy;
+  private api: DatasetDownloader;
+  private browser: DatasetDownloader;
+
+  constructor(
+    strategy: DownloadStrategy = envConfig.kaggle.downloadStrategy,
+    downloaders: { api?: DatasetDownloader; browser?: DatasetDownloader } = {}
+  ) {
     this.downloadDir = path.resolve(__dirname, '../../', envConfig.app.downloadDir);
-    this.email = envConfig.kaggle.email;
-    this.password = envConfig.kaggle.password;
-    this.datasetUrl = envConfig.kaggle.datasetUrl;
+    this.strategy = strategy;
+    this.api = downloaders.api ?? new KaggleApiDownloader(envConfig.kaggle.dataset, envConfig.kaggle.apiBaseUrl);
+    this.browser = downloaders.browser ?? new KaggleBrowserDownloader(
+      envConfig.kaggle.email,
+      envConfig.kaggle.password,
+      envConfig.kaggle.datasetUrl
+    );
+
+    if (!this.downloadDir) {
+      throw new AppError(
+        'MISSING_CONFIG',
+        400,
+        'Download directory not configured'
+      );
+    }
+  }
 
-    if (!this.downloadDir || !this.email || !this.password) {
+  /**
+   * 'api' and 'browser' use just that strategy. 'auto' prefers the API
+   * token and falls back to the browser when it is missing or fails.
+   */
+  private selectStrategies(): DatasetDownloader[] {
+    if (this.strategy === 'api') return [this.api];
+    if (this.strategy === 'browser') return [this.browser];
+
+    const configured = [this.api, this.browser].filter(d => d.isConfigured());
+    if (configured.length === 0) {
       throw new AppError(
         'MISSING_CONFIG',
         400,
-        'Kaggle credentials or download directory not configured'
+        'No Kaggle credentials configured (set KAGGLE_USERNAME/KAGGLE_KEY, kaggle.json, or KAGGLE_EMAIL/KAGGLE_PASSWORD)'
       );
     }
+    return configured;
   }
 
   private ensureDownloadDir(): void {
@@ -39,115 +77,145 @@ export class KaggleDownloaderService {
     }
   }
 
-  private getExistingFile(): string | null {
+  /** Loose .csv/.zip left in the download directory by runs that predate the manifest. */
+  private getLegacyFile(): string | null {
     const files = fs.readdirSync(this.downloadDir);
     const csvFile = files.find(f => f.endsWith('.csv') || f.endsWith('.zip'));
     return csvFile ? path.join(this.downloadDir, csvFile) : null;
   }
 
-  async download(): Promise<string> {
+  private async fetchWithStrategies(destDir: string): Promise<{ filePath: string; strategy: DatasetDownloader }> {
+    const strategies = this.selectStrategies();
+    for (const [i, strategy] of strategies.entries()) {
+      const endTimer = downloadDuration.startTimer({ strategy: strategy.name });
+      try {
+        logger.info(`Downloading with the ${strategy.name} strategy`);
+        const filePath = await strategy.download(destDir);
+        endTimer();
+        downloadAttemptsTotal.inc(1, { strategy: strategy.name, result: 'success' });
+        downloadBytes.set(fs.statSync(filePath).size);
+        return { filePath, strategy };
+      } catch (error: any) {
+        downloadAttemptsTotal.inc(1, { strategy: strategy.name, result: 'failure' });
+        if (i === strategies.length - 1) {
+          throw error;
+        }
+        logger.warn(`${strategy.name} download failed (${error.message}); falling back to ${strategies[i + 1].name}`);
+      }
+    }
+
+    throw new AppError('MISSING_CONFIG', 400, 'No Kaggle download strategy configured');
+  }
+
+  private async latestRemoteVersion(): Promise<number | null> {
+    for (const strategy of this.selectStrategies()) {
+      const version = await strategy.latestVersion?.();
+      if (version !== undefined && version !== null) {
+        return version;
+      }
+    }
+    return null;
+  }
+
+  private versionLabel(manifest: DatasetManifest, datasetVersion: number | null): string {
+    const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+    const label = datasetVersion !== null ? `v${datasetVersion}` : timestamp;
+    return manifest.hasLabel(label) ? `${label}-${timestamp}` : label;
+  }
+
+  /**
+   * Default: reuse the current version if there is one.
+   * --if-changed: check upstream and keep the download only if its SHA-256 differs.
+   * --force: always download, even if upstream reports the same version. A
+   * download whose SHA-256 matches the current version is discarded and the
+   * current version returned; only different content is recorded as a new one.
+   */
+  async download(options: DownloadOptions = {}): Promise<string> {
     try {
       this.ensureDownloadDir();
+      const manifest = new DatasetManifest(this.downloadDir);
+      const current = manifest.current();
+
+      if (!options.force && !options.ifChanged) {
+        if (current) {
+          logger.warn(`Dataset ${current.label} already downloaded at ${manifest.absolutePath(current)}. Skipping download.`);
+          downloadsTotal.inc(1, { outcome: 'cached' });
+          return manifest.absolutePath(current);
+        }
 
-      // Check if file already exists
-      const existingFile = this.getExistingFile();
-      if (existingFile) {
-        logger.warn(`File already exists at ${existingFile}. Skipping download.`);
-        return existingFile;
+        const legacyFile = this.getLegacyFile();
+        if (legacyFile) {
+          const stat = fs.statSync(legacyFile);
+          manifest.record({
+            label: 'legacy',
+            sourceUrl: envConfig.kaggle.datasetUrl,
+            datasetVersion: null,
+            fileName: path.basename(legacyFile),
+            path: path.relative(this.downloadDir, legacyFile),
+            size: stat.size,
+            sha256: await sha256File(legacyFile),
+            downloadedAt: stat.mtime.toISOString(),
+          });
+          logger.warn(`File already exists at ${legacyFile}. Recorded it in the manifest and skipped download.`);
+          downloadsTotal.inc(1, { outcome: 'cached' });
+          return legacyFile;
+        }
       }
 
-      logger.info('Starting Kaggle download...');
-      const browser = await chromium.launch({
-        headless: process.env.NODE_ENV === 'production',
-        args: [
-          '--disable-blink-features=AutomationControlled',
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-        ],
-      });
-
-      const context = await browser.newContext({
-        acceptDownloads: true,
-        userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      });
-      const page = await context.newPage();
-
-      // Add request interception to handle blocked resources
-      await page.route('**/*', (route) => {
-        const url = route.request().url();
-        // Allow main requests and important resources
-        if (url.includes('kaggle.com') || url.includes('.js') || url.includes('.css') || url.includes('analytics')) {
-          route.continue().catch(() => route.abort());
-        } else {
-          route.abort();
+      let remoteVersion: number | null = null;
+      if (options.ifChanged && current) {
+        remoteVersion = await this.latestRemoteVersion();
+        if (remoteVersion !== null && remoteVersion === current.datasetVersion) {
+          logger.info(`Upstream dataset is still version ${remoteVersion}. Skipping download.`);
+          downloadsTotal.inc(1, { outcome: 'unchanged' });
+          return manifest.absolutePath(current);
         }
-      });
-
-      try {
-        logger.info('Navigating to Kaggle login page...');
-        await page.goto('https://www.kaggle.com/account/login?phase=emailSignIn', {
-          waitUntil: 'domcontentloaded',
-          timeout: 60000,
-        });
+      }
 
-        logger.info('Entering credentials...');
-        await page.waitForSelector('input[name="email"]', { timeout: 30000 });
-        await page.fill('input[name="email"]', this.email);
+      // Download into a staging folder, then move into versions/<label>/ once checked
+      const stagingDir = path.join(this.downloadDir, '.incoming');
+      fs.rmSync(stagingDir, { recursive: true, force: true });
+      fs.mkdirSync(stagingDir, { recursive: true });
 
-        await page.waitForSelector('input[name="password"]', { timeout: 30000 });
-        await page.fill('input[name="password"]', this.password);
+      try {
+        const { filePath, strategy } = await this.fetchWithStrategies(stagingDir);
+        const sha256 = await sha256File(filePath);
 
-        await page.click('button[type="submit"]');
-        
-        // Wait for navigation to complete after login
-        try {
-          await page.waitForURL('**/account/login/success', { timeout: 30000 }).catch(() => null);
-        } catch {
-          // Login redirect may vary
+        if (current && current.sha256 === sha256) {
+          logger.info(`Downloaded file matches current version ${current.label} (sha256 ${sha256.slice(0, 12)}…). Keeping it.`);
+          downloadsTotal.inc(1, { outcome: 'unchanged' });
+          return manifest.absolutePath(current);
         }
-        
-        await page.waitForLoadState('domcontentloaded');
-        logger.success('Logged in to Kaggle');
-
-        // Add small delay to ensure session is established
-        await page.waitForTimeout(2000);
 
-        logger.info('Navigating to dataset page...');
-        await page.goto(this.datasetUrl, {
-          waitUntil: 'domcontentloaded',
-          timeout: 60000,
+        const datasetVersion = remoteVersion ?? (await strategy.latestVersion?.()) ?? null;
+        const label = this.versionLabel(manifest, datasetVersion);
+        const versionDir = path.join(this.downloadDir, 'versions', label);
+        fs.mkdirSync(versionDir, { recursive: true });
+
+        const finalPath = path.join(versionDir, path.basename(filePath));
+        fs.renameSync(filePath, finalPath);
+
+        manifest.record({
+          label,
+          sourceUrl: strategy.sourceUrl,
+          datasetVersion,
+          fileName: path.basename(finalPath),
+          path: path.relative(this.downloadDir, finalPath),
+          size: fs.statSync(finalPath).size,
+          sha256,
+          downloadedAt: new Date().toISOString(),
         });
 
-        logger.info('Waiting for download button...');
-        
-        // Try multiple selectors for the download button
-        const downloadButton = await page.locator(
-          'button:has-text("Download"), a:has-text("Download"), [data-test-id="download-button"]'
-        ).first();
-        
-        await downloadButton.waitFor({ timeout: 30000 });
-
-        const [download] = await Promise.all([
-          page.waitForEvent('download', { timeout: 60000 }),
-          downloadButton.click(),
-        ]);
-
-        const filePath = path.join(this.downloadDir, download.suggestedFilename());
-        await download.saveAs(filePath);
-
-        logger.success(`File downloaded: ${filePath}`);
-        return filePath;
+        logger.success(`Recorded dataset version ${label} (sha256 ${sha256.slice(0, 12)}…)`);
+        downloadsTotal.inc(1, { outcome: 'downloaded' });
+        return finalPath;
       } finally {
-        await browser.close();
+        fs.rmSync(stagingDir, { recursive: true, force: true });
       }
     } catch (error) {
+      downloadsTotal.inc(1, { outcome: 'failed' });
       await handleError(error, 'KaggleDownloader', 'Failed to download from Kaggle');
       throw error;
     }
   }
 }
-
-(async () => {
-  const downloader = new KaggleDownloaderService();
-  await downloader.download();
-})();
\ No newline at end of file
@@ -0,0 +1,126 @@
+// src/services/PipelineMetrics.ts
+//
+// The metrics the pipeline records, in one place so the /metrics endpoint,
+// the run report and the Readme agree on names. Durations are in seconds.
+
+import { metrics } from '../utils/Metrics';
+
+// Download stage
+export const downloadsTotal = metrics.counter(
+  'babynames_downloads_total',
+  'Download stage outcomes: downloaded (new version), unchanged (same as current), cached (not fetched), failed',
+  ['outcome']
+);
+export const downloadAttemptsTotal = metrics.counter(
+  'babynames_download_attempts_total',
+  'Download attempts per strategy; a failed api attempt falls back to browser in auto mode',
+  ['strategy', 'result']
+);
+export const downloadDuration = metrics.histogram(
+  'babynames_download_duration_seconds',
+  'Time to fetch the dataset with one strategy',
+  { buckets: [1, 5, 15, 30, 60, 120, 300, 600], labelNames: ['strategy'] }
+);
+export const downloadBytes = metrics.gauge('babynames_download_bytes', 'Size of the last fetched dataset file');
+
+// Import stage
+export const importFilesTotal = metrics.counter(
+  'babynames_import_files_total',
+  'Files (or archive entries) by outcome: imported, skipped (checksum already imported), failed',
+  ['outcome']
+);
+export const importRowsTotal = metrics.counter(
+  'babynames_import_rows_total',
+  'Rows read from input files, by validation result',
+  ['result']
+);
+export const importRejectsTotal = metrics.counter(
+  'babynames_import_rejects_total',
+  'Rejected rows by reason',
+  ['reason']
+);
+export const importRowsWrittenTotal = metrics.counter(
+  'babynames_import_rows_written_total',
+  'Accepted rows by what they did to BabyNames: inserted, updated or unchanged',
+  ['outcome']
+);
+export const importBytesTotal = metrics.counter('babynames_import_bytes_total', 'Uncompressed bytes read from input files');
+export const importBatchDuration = metrics.histogram(
+  'babynames_import_batch_duration_seconds',
+  'Time to upsert and commit one batch (or, with --bulk-load, to merge the staging table)'
+);
+
+// Sync stage
+export const syncRecordsTotal = metrics.counter(
+  'babynames_sync_records_total',
+  'Records read for HubSpot: synced, unchanged (not re-sent) or failed (saved to SyncFailures)',
+  ['outcome']
+);
+export const syncBatchDuration = metrics.histogram(
+  'babynames_sync_batch_duration_seconds',
+  'Time to send one batch to HubSpot and record the outcome',
+  { buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60] }
+);
+export const hubspotRequestsTotal = metrics.counter(
+  'babynames_hubspot_requests_total',
+  'HubSpot API requests, retries included, by response status ("network" when there was none)',
+  ['status']
+);
+export const hubspotRateLimitedTotal = metrics.counter('babynames_hubspot_rate_limited_total', 'HubSpot 429 responses');
+export const hubspotRetriesTotal = metrics.counter('babynames_hubspot_retries_total', 'HubSpot requests retried after a 429, 5xx or network error');
+export const hubspotRequestDuration = metrics.histogram(
+  'babynames_hubspot_request_duration_seconds',
+  'HubSpot API request latency, per attempt'
+);
+
+// Pipeline
+export const stageRunning = metrics.gauge('babynames_stage_running', '1 while the stage runs, else 0', ['stage']);
+export const stageDuration = metrics.gauge('babynames_stage_duration_seconds', 'How long the stage took in this run', ['stage']);
+
+export interface RunSummary {
+  download: { downloaded: number; unchanged: number; cached: number; failed: number; bytes: number };
+  import: {
+    files: number;
+    skippedFiles: number;
+    rowsRead: number;
+    accepted: number;
+    rejected: number;
+    inserted: number;
+    updated: number;
+    unchanged: number;
+    bytesRead: number;
+  };
+  sync: { synced: number; unchanged: number; failed: number; requests: number; rateLimited: number; retries: number };
+}
+
+/** Totals for the run report: the counts people ask about, without reading the full snapshot. */
+export function runSummary(): RunSummary {
+  return {
+    download: {
+      downloaded: downloadsTotal.value({ outcome: 'downloaded' }),
+      unchanged: downloadsTotal.value({ outcome: 'unchanged' }),
+      cached: downloadsTotal.value({ outcome: 'cached' }),
+      failed: downloadsTotal.value({ outcome: 'failed' }),
+      bytes: downloadBytes.value(),
+    },
+    import: {
+      files: importFilesTotal.value({ outcome: 'imported' }),
+      skippedFiles: importFilesTotal.value({ outcome: 'skipped' }),
+      rowsRead: importRowsTotal.total(),
+      accepted: importRowsTotal.value({ result: 'accepted' }),
+      rejected: importRowsTotal.value({ result: 'rejected' }),
+      inserted: importRowsWrittenTotal.value({ outcome: 'inserted' }),
+      updated: importRowsWrittenTotal.value({ outcome: 'updated' }),
+      unchanged: importRowsWrittenTotal.value({ outcome: 'unchanged' }),
+      bytesRead: importBytesTotal.value(),
+    },
+    sync: {
+      synced: syncRecordsTotal.value({ outcome: 'synced' }),
+      unchanged: syncRecordsTotal.value({ outcome: 'unchanged' }),
+      failed: syncRecordsTotal.value({ outcome: 'failed' }),
+      requests: hubspotRequestsTotal.total(),
+      rateLimited: hubspotRateLimitedTotal.value(),
+      retries: hubspotRetriesTotal.value(),
+    },
+  };
+}
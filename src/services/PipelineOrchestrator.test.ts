@@ -0,0 +1,59 @@
+// src/services/PipelineOrchestrator.test.ts
+
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, describe, it } from 'node:test';
+
+// Config is read on import; no stage here touches the database
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-test-'));
+process.env.DB_DIALECT = 'sqlite';
+process.env.DB_STORAGE = path.join(tmpDir, 'pipeline.sqlite');
+process.env.HUBSPOT_ACCESS_TOKEN = 'mock-token';
+delete process.env.HUBSPOT_MAPPING_FILE;
+
+const { PipelineOrchestrator } = await import('./PipelineOrchestrator');
+const { PipelineStateStore } = await import('./PipelineStateStore');
+const { RunReportWriter } = await import('./RunReportWriter');
+
+describe('PipelineOrchestrator --resume', () => {
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('keeps a failed stage failed when a resumed run leaves it out', async () => {
+    const store = new PipelineStateStore(path.join(tmpDir, 'state.json'));
+    const reports = new RunReportWriter(path.join(tmpDir, 'reports'));
+    const calls: string[] = [];
+    let importFails = true;
+    const orchestrator = new PipelineOrchestrator(store, {
+      migrate: async () => { calls.push('migrate'); },
+      download: async () => { calls.push('download'); },
+      import: async () => {
+        calls.push('import');
+        if (importFails) {
+          throw new Error('import broke');
+        }
+      },
+      sync: async () => { calls.push('sync'); },
+    }, reports);
+
+    await assert.rejects(orchestrator.run(), /import broke/);
+    const { runId } = store.load()!;
+
+    const partial = await orchestrator.run({ resume: true, only: ['sync'] });
+    assert.equal(partial.runId, runId);
+    assert.equal(partial.stages.import.status, 'failed');
+    assert.equal(partial.stages.sync.status, 'succeeded');
+    assert.equal(partial.status, 'failed');
+
+    importFails = false;
+    const resumed = await orchestrator.run({ resume: true });
+    assert.equal(resumed.runId, runId);
+    assert.equal(resumed.stages.import.status, 'succeeded');
+    assert.equal(resumed.status, 'succeeded');
+    // migrate and download succeeded in the first attempt; sync in the second
+    assert.deepEqual(calls, ['migrate', 'download', 'import', 'sync', 'import']);
+  });
+});
@@ -0,0 +1,213 @@
+// src/services/PipelineOrchestrator.ts
+
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { envConfig } from '../config/EnvConfig';
+import { logger as rootLogger } from '../utils/Logger';
+import { AppError } from '../utils/ErrorHandler';
+import { MigrationRunner } from '../database/MigrationRunner';
+import { CsvImporterService } from './CsvImporterService';
+import { HubSpotSyncService } from './HubSpotSyncService';
+import { HubSpotFieldMapper } from './HubSpotFieldMapper';
+import { NameAnalyticsService } from './analytics/NameAnalyticsService';
+import { createDataSource } from './sources/DataSourceFactory';
+import { defaultMappingFor } from '../config/HubSpotMappingConfig';
+import { RunReportWriter } from './RunReportWriter';
+import { stageDuration, stageRunning } from './PipelineMetrics';
+import {
+  PipelineRunState,
+  PipelineStateStore,
+  STAGE_ORDER,
+  StageName,
+} from './PipelineStateStore';
+
+const logger = rootLogger.child({ service: 'Pipeline' });
+
+export interface PipelineOptions {
+  resume?: boolean;
+  only?: StageName[];
+  skip?: StageName[];
+  retryFailed?: boolean;   // sync stage: re-drive records in SyncFailures only
+  force?: boolean;         // download stage: always fetch, keeping it only if its content changed
+  ifChanged?: boolean;     // download stage: fetch only if upstream changed
+  reimport?: boolean;      // import stage: import even if the file's checksum was imported
+  bulkLoad?: boolean;      // import stage: LOAD DATA into a staging table instead of batched upserts
+}
+
+export type StageRunner = (options: PipelineOptions) => Promise<unknown>;
+
+const defaultStages: Record<StageName, StageRunner> = {
+  migrate: () => new MigrationRunner().up(),
+  download: (options) => createDataSource().fetch({ force: options.force, ifChanged: options.ifChanged }),
+  import: async (options) => {
+    const result = await new CsvImporterService().import({
+      reimport: options.reimport,
+      resume: options.resume,
+      bulkLoad: options.bulkLoad ?? envConfig.app.bulkLoad,
+    });
+    // Summary tables are derived from BabyNames, so rebuild them while the import is fresh.
+    // The rebuild is a full-table transaction; skip it when no file changed a row.
+    if (envConfig.analytics.refreshAfterImport) {
+      if (result.inserted + result.updated > 0) {
+        await new NameAnalyticsService().refresh();
+      } else {
+        logger.info('No rows inserted or updated; name analytics are already current');
+      }
+    }
+    return result;
+  },
+  sync: (options) => new HubSpotSyncService().sync({ retryFailed: options.retryFailed }),
+};
+
+export class PipelineOrchestrator {
+  private store: PipelineStateStore;
+  private stages: Record<StageName, StageRunner>;
+  private reports: RunReportWriter;
+
+  constructor(
+    store: PipelineStateStore = new PipelineStateStore(
+      path.resolve(envConfig.app.pipelineStateFile)
+    ),
+    stages: Partial<Record<StageName, StageRunner>> = {},
+    reports: RunReportWriter = new RunReportWriter(path.resolve(envConfig.metrics.reportDir))
+  ) {
+    this.store = store;
+    this.stages = { ...defaultStages, ...stages };
+    this.reports = reports;
+  }
+
+  static parseStages(value: string): StageName[] {
+    const names = value.split(',').map(s => s.trim()).filter(Boolean);
+    for (const name of names) {
+      if (!STAGE_ORDER.includes(name as StageName)) {
+        throw new AppError(
+          'UNKNOWN_STAGE',
+          400,
+          `Unknown pipeline stage "${name}" (expected one of ${STAGE_ORDER.join(', ')})`
+        );
+      }
+    }
+    return names as StageName[];
+  }
+
+  private selectStages(options: PipelineOptions): StageName[] {
+    return STAGE_ORDER.filter(stage =>
+      (!options.only || options.only.length === 0 || options.only.includes(stage)) &&
+      !(options.skip ?? []).includes(stage)
+    );
+  }
+
+  private startState(options: PipelineOptions): PipelineRunState {
+    if (!options.resume) {
+      return PipelineStateStore.createRun(randomUUID());
+    }
+
+    const previous = this.store.load();
+    if (!previous) {
+      logger.warn('No previous pipeline run found, starting a new run');
+      return PipelineStateStore.createRun(randomUUID());
+    }
+    if (previous.status === 'succeeded') {
+      logger.warn(`Previous run ${previous.runId} already succeeded, starting a new run`);
+      return PipelineStateStore.createRun(randomUUID());
+    }
+
+    logger.info(`Resuming pipeline run ${previous.runId}`);
+    return { ...previous, status: 'running', finishedAt: undefined };
+  }
+
+  /** A report that can't be written is logged, not thrown; it mustn't fail or mask the run's outcome. */
+  private writeReport(state: PipelineRunState, startedAt: Date): void {
+    try {
+      logger.info(`Run report written to ${this.reports.write(state, startedAt)}`);
+    } catch (error: any) {
+      logger.warn(`Could not write the run report: ${error.message}`);
+    }
+  }
+
+  async run(options: PipelineOptions = {}): Promise<PipelineRunState> {
+    const startedAt = new Date();
+    const state = this.startState(options);
+    const selected = this.selectStages(options);
+    // Tag every record from here on, so a resumed run's logs share one ID
+    logger.setContext({ runId: state.runId });
+
+    logger.info(`Pipeline run ${state.runId}: ${selected.join(' → ') || '(no stages)'}`);
+
+    // Surface a broken field mapping now rather than after download and import
+    if (selected.includes('sync')) {
+      HubSpotFieldMapper.load(envConfig.hubspot.mappingFile, defaultMappingFor(envConfig.hubspot.syncMode));
+    }
+
+    this.store.save(state);
+
+    for (const stage of STAGE_ORDER) {
+      const stageState = state.stages[stage];
+
+      if (!selected.includes(stage)) {
+        // A failed or interrupted stage stays that way, so a later --resume still runs it
+        if (stageState.status === 'pending') {
+          stageState.status = 'skipped';
+        }
+        continue;
+      }
+
+      if (options.resume && stageState.status === 'succeeded') {
+        logger.info(`Stage ${stage} already succeeded in run ${state.runId}, skipping`);
+        continue;
+      }
+
+      stageState.status = 'running';
+      stageState.startedAt = new Date().toISOString();
+      stageState.finishedAt = undefined;
+      stageState.error = undefined;
+      this.store.save(state);
+
+      logger.info(`▶ Stage: ${stage}`);
+      stageRunning.set(1, { stage });
+      const stageStartedAt = Date.now();
+      const endStage = () => {
+        stageRunning.set(0, { stage });
+        stageDuration.set((Date.now() - stageStartedAt) / 1000, { stage });
+      };
+
+      try {
+        stageState.result = await this.stages[stage](options);
+        endStage();
+        stageState.status = 'succeeded';
+        stageState.finishedAt = new Date().toISOString();
+        this.store.save(state);
+        logger.success(`Stage ${stage} succeeded`);
+      } catch (error: any) {
+        endStage();
+        stageState.status = 'failed';
+        stageState.finishedAt = new Date().toISOString();
+        stageState.error = error?.message ?? String(error);
+        state.status = 'failed';
+        state.finishedAt = stageState.finishedAt;
+        this.store.save(state);
+
+        logger.error(`Stage ${stage} failed. Re-run with --resume to continue from here.`);
+        this.writeReport(state, startedAt);
+        throw error;
+      }
+    }
+
+    // Stages left failed by an earlier attempt keep the run resumable
+    const unfinished = STAGE_ORDER.filter(stage => ['failed', 'running'].includes(state.stages[stage].status));
+    state.status = unfinished.length > 0 ? 'failed' : 'succeeded';
+    state.finishedAt = new Date().toISOString();
+    this.store.save(state);
+
+    this.writeReport(state, startedAt);
+    if (unfinished.length > 0) {
+      logger.warn(
+        `Pipeline run ${state.runId}: selected stages done, but ${unfinished.join(', ')} did not finish; ` +
+        'run with --resume to complete it'
+      );
+    } else {
+      logger.success(`Pipeline run ${state.runId} complete`);
+    }
+    return state;
+  }
+}
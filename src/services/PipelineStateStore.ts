@@ -0,0 +1,74 @@
+// src/services/PipelineStateStore.ts
+
+import fs from 'fs';
+import path from 'path';
+import { AppError } from '../utils/ErrorHandler';
+
+export type StageName = 'migrate' | 'download' | 'import' | 'sync';
+
+export const STAGE_ORDER: StageName[] = ['migrate', 'download', 'import', 'sync'];
+
+export type StageStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export interface StageState {
+  status: StageStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: unknown;
+  error?: string;
+}
+
+export interface PipelineRunState {
+  runId: string;
+  status: 'running' | 'succeeded' | 'failed';
+  startedAt: string;
+  finishedAt?: string;
+  stages: Record<StageName, StageState>;
+}
+
+/**
+ * Persists the state of the latest pipeline run as JSON so that
+ * `--resume` can pick up at the stage that failed.
+ */
+export class PipelineStateStore {
+  constructor(private filePath: string) {}
+
+  load(): PipelineRunState | null {
+    if (!fs.existsSync(this.filePath)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as PipelineRunState;
+    } catch (error: any) {
+      throw new AppError(
+        'CORRUPT_PIPELINE_STATE',
+        500,
+        `Could not read pipeline state at ${this.filePath}: ${error.message}`
+      );
+    }
+  }
+
+  save(state: PipelineRunState): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  static createRun(runId: string): PipelineRunState {
+    const stages = {} as Record<StageName, StageState>;
+    for (const stage of STAGE_ORDER) {
+      stages[stage] = { status: 'pending' };
+    }
+
+    return {
+      runId,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      stages,
+    };
+  }
+}
@@ -0,0 +1,61 @@
+// src/services/RunReportWriter.ts
+
+import fs from 'fs';
+import path from 'path';
+import { MetricSnapshot, metrics } from '../utils/Metrics';
+import { RunSummary, runSummary } from './PipelineMetrics';
+import { PipelineRunState, StageName, StageState } from './PipelineStateStore';
+
+export interface StageReport extends StageState {
+  durationMs?: number;
+}
+
+export interface RunReport {
+  runId: string;
+  status: PipelineRunState['status'];
+  runStartedAt: string;                   // When the run was first started; earlier than startedAt when resumed
+  startedAt: string;                      // This invocation
+  finishedAt: string;
+  durationMs: number;
+  stages: Record<StageName, StageReport>;
+  summary: RunSummary;
+  metrics: MetricSnapshot[];              // Everything recorded by this invocation
+}
+
+/**
+ * Writes one JSON report per pipeline invocation to
+ * <dir>/run-<started>-<runId>.json, so a resumed run gets a report per
+ * attempt instead of overwriting the first one.
+ */
+export class RunReportWriter {
+  constructor(private dir: string) {}
+
+  write(state: PipelineRunState, startedAt: Date): string {
+    const finishedAt = new Date();
+    const stages = {} as Record<StageName, StageReport>;
+    for (const [stage, stageState] of Object.entries(state.stages) as [StageName, StageState][]) {
+      stages[stage] = { ...stageState };
+      if (stageState.startedAt && stageState.finishedAt) {
+        stages[stage].durationMs = Date.parse(stageState.finishedAt) - Date.parse(stageState.startedAt);
+      }
+    }
+
+    const report: RunReport = {
+      runId: state.runId,
+      status: state.status,
+      runStartedAt: state.startedAt,
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      stages,
+      summary: runSummary(),
+      metrics: metrics.snapshot(),
+    };
+
+    const stamp = startedAt.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+    const filePath = path.join(this.dir, `run-${stamp}-${state.runId}.json`);
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(report, null, 2));
+    return filePath;
+  }
+}
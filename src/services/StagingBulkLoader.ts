@@ -0,0 +1,204 @@
+// src/services/StagingBulkLoader.ts
+
+import { randomBytes } from 'crypto';
+import { once } from 'events';
+import { PassThrough } from 'stream';
+import type { Connection, QueryError, ResultSetHeader, RowDataPacket } from 'mysql2';
+import { Transaction } from 'sequelize';
+import { sequelize } from '../config/DatabaseConfig.js';
+import { logger as rootLogger } from '../utils/Logger';
+import { AppError } from '../utils/ErrorHandler';
+import { dialect } from '../database/Dialect';
+import { BabyNameRow } from './formats/RowFormat';
+import { ImportStats } from './validation/ImportStats';
+import { phoneticKeys } from './search/Phonetics';
+
+const logger = rootLogger.child({ service: 'StagingBulkLoader' });
+
+export interface StagingTable {
+  name: string;
+  staged: number;       // Distinct (name, sex, year) keys after LOAD DATA ... REPLACE
+}
+
+// mysql2 error numbers for a server or client that refuses LOCAL INFILE
+const LOCAL_INFILE_DISABLED = [1148, 3948];
+
+/** One TSV line in the layout the LOAD DATA statement below expects; 0 stands in for "no year". */
+const toLine = (row: BabyNameRow): string => {
+  const name = row.name.replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\n/g, '\\n');
+  // Keys are A-Z and digits only, so they need no escaping
+  const keys = phoneticKeys(row.name);
+  return `${name}\t${row.sex}\t${row.year ?? 0}\t${row.count}\t${keys.soundex}\t${keys.metaphone}\t${keys.metaphoneAlt}\n`;
+};
+
+/**
+ * Fast import path: validated rows are streamed into a staging table with
+ * LOAD DATA LOCAL INFILE over the mysql2 connection, then merged into
+ * BabyNames with two set-based statements in one transaction, so readers
+ * see either none or all of the file.
+ *
+ * The merge stands in for swapping a fully built table in with RENAME TABLE:
+ * a swap gives the same all-or-nothing view, but replaces every row, so it
+ * would drop the ids that SyncFailures points at and the HubSpot sync state
+ * (hubspotId, syncHash, syncedAt) of rows the file doesn't change, and a
+ * file holding only some years would delete the rest.
+ *
+ * MySQL only, and needs `local_infile=ON` on the server. With PostgreSQL or
+ * SQLite, --bulk-load (or IMPORT_BULK_LOAD=true) fails with
+ * BULK_LOAD_UNSUPPORTED before any row is read; the default batched path
+ * works on every dialect.
+ */
+export class StagingBulkLoader {
+  /** Call before reading any rows, so an unsupported setup fails before the import starts. */
+  assertSupported(): void {
+    if (dialect() !== 'mysql') {
+      throw new AppError(
+        'BULK_LOAD_UNSUPPORTED',
+        400,
+        `--bulk-load uses LOAD DATA LOCAL INFILE, which needs DB_DIALECT=mysql (current: ${dialect()}); import without it`
+      );
+    }
+  }
+
+  async stage(rows: AsyncIterable<BabyNameRow>, stats: ImportStats): Promise<StagingTable> {
+    const name = `BabyNamesStaging_${randomBytes(4).toString('hex')}`;
+    const acceptedBefore = stats.accepted;
+
+    // Same collation as BabyNames, so the unique key folds names exactly as the merge join does
+    await sequelize.query(
+      `
+        CREATE TABLE \`${name}\` (
+          \`name\` VARCHAR(255) NOT NULL,
+          \`sex\` ENUM('M', 'F') NOT NULL,
+          \`year\` SMALLINT UNSIGNED NOT NULL DEFAULT 0,
+          \`count\` INT UNSIGNED NOT NULL DEFAULT 0,
+          \`soundex\` CHAR(4) NOT NULL,
+          \`metaphone\` VARCHAR(4) NOT NULL,
+          \`metaphoneAlt\` VARCHAR(4) NOT NULL,
+          UNIQUE KEY \`uq_staging_key\` (\`name\`, \`sex\`, \`year\`)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+      `,
+      { logging: false }
+    );
+
+    try {
+      await this.loadInfile(name, rows);
+
+      const [[{ staged }]] = await sequelize.query(
+        `SELECT COUNT(*) AS staged FROM \`${name}\``,
+        { logging: false }
+      ) as [RowDataPacket[], unknown];
+      // REPLACE keeps the last occurrence of a repeated key
+      stats.duplicates += stats.accepted - acceptedBefore - Number(staged);
+      logger.info(`Staged ${staged} rows in ${name}`);
+      return { name, staged: Number(staged) };
+    } catch (error) {
+      await this.drop({ name, staged: 0 });
+      throw error;
+    }
+  }
+
+  private async loadInfile(table: string, rows: AsyncIterable<BabyNameRow>): Promise<void> {
+    const infile = new PassThrough();
+    // The pool hands out the raw mysql2 connection; LOAD DATA needs its callback API
+    const connection = await sequelize.connectionManager.getConnection({ type: 'write' }) as Connection;
+
+    try {
+      const load = new Promise<void>((resolve, reject) => {
+        connection.query(
+          {
+            sql: `
+              LOAD DATA LOCAL INFILE 'rows.tsv' REPLACE INTO TABLE \`${table}\`
+              CHARACTER SET utf8mb4
+              FIELDS TERMINATED BY '\\t' ESCAPED BY '\\\\'
+              LINES TERMINATED BY '\\n'
+              (\`name\`, \`sex\`, \`year\`, \`count\`, \`soundex\`, \`metaphone\`, \`metaphoneAlt\`)
+            `,
+            infileStreamFactory: () => infile,
+          },
+          (err: QueryError | null) => (err ? reject(err) : resolve())
+        );
+      }).catch((err) => {
+        // Stops the feed below if the server gives up first
+        infile.destroy();
+        throw err;
+      });
+
+      const feed = (async () => {
+        for await (const row of rows) {
+          if (infile.destroyed) {
+            return;
+          }
+          if (!infile.write(toLine(row))) {
+            await Promise.race([once(infile, 'drain'), once(infile, 'close')]);
+          }
+        }
+        infile.end();
+      })().catch((err) => {
+        // mysql2 ends the LOAD DATA on a stream error and the query fails with it
+        infile.destroy(err);
+        throw err;
+      });
+
+      const [loaded, fed] = await Promise.allSettled([load, feed]);
+      if (fed.status === 'rejected') throw fed.reason;
+      if (loaded.status === 'rejected') throw loaded.reason;
+    } catch (error) {
+      if (LOCAL_INFILE_DISABLED.includes((error as QueryError).errno ?? 0)) {
+        throw new AppError(
+          'LOCAL_INFILE_DISABLED',
+          400,
+          'The MySQL server refuses LOAD DATA LOCAL INFILE; enable it with `SET GLOBAL local_infile = 1` or import without --bulk-load'
+        );
+      }
+      throw error;
+    } finally {
+      sequelize.connectionManager.releaseConnection(connection);
+    }
+  }
+
+  /**
+   * Applies the staged rows to BabyNames in one transaction: changed counts,
+   * then new keys. `onCommit` runs last inside the same transaction.
+   */
+  async merge(
+    table: StagingTable,
+    stats: ImportStats,
+    onCommit?: (transaction: Transaction) => Promise<void>
+  ): Promise<void> {
+    const join = `b.\`name\` = s.\`name\` AND b.\`sex\` = s.\`sex\` AND b.\`year\` <=> NULLIF(s.\`year\`, 0)`;
+
+    await sequelize.transaction(async (transaction) => {
+      // mysql2's ResultSetHeader comes back as the metadata of a raw query
+      const [, updated] = await sequelize.query(
+        `
+          UPDATE \`BabyNames\` b JOIN \`${table.name}\` s ON ${join}
+          SET b.\`count\` = s.\`count\`, b.\`updatedAt\` = NOW()
+          WHERE b.\`count\` <> s.\`count\`
+        `,
+        { transaction, logging: false }
+      ) as [unknown, ResultSetHeader];
+
+      const [, inserted] = await sequelize.query(
+        `
+          INSERT INTO \`BabyNames\`
+            (\`name\`, \`sex\`, \`year\`, \`count\`, \`soundex\`, \`metaphone\`, \`metaphoneAlt\`, \`createdAt\`, \`updatedAt\`)
+          SELECT s.\`name\`, s.\`sex\`, NULLIF(s.\`year\`, 0), s.\`count\`, s.\`soundex\`, s.\`metaphone\`, s.\`metaphoneAlt\`, NOW(), NOW()
+          FROM \`${table.name}\` s
+          LEFT JOIN \`BabyNames\` b ON ${join}
+          WHERE b.\`id\` IS NULL
+        `,
+        { transaction, logging: false }
+      ) as [unknown, ResultSetHeader];
+
+      stats.updated += updated.affectedRows;
+      stats.inserted += inserted.affectedRows;
+      stats.unchanged += Math.max(0, table.staged - updated.affectedRows - inserted.affectedRows);
+      await onCommit?.(transaction);
+    });
+  }
+
+  async drop(table: StagingTable): Promise<void> {
+    await sequelize.query(`DROP TABLE IF EXISTS \`${table.name}\``, { logging: false });
+  }
+}
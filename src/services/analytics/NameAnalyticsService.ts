@@ -0,0 +1,360 @@
+// src/services/analytics/NameAnalyticsService.ts
+
+import { Model, ModelStatic, Op, Transaction, col, fn } from 'sequelize';
+import { sequelize } from '../../config/DatabaseConfig.js';
+import { envConfig } from '../../config/EnvConfig';
+import { logger as rootLogger } from '../../utils/Logger';
+import { AppError, handleError } from '../../utils/ErrorHandler';
+import { caseInsensitiveLike } from '../../database/Dialect';
+import { foldName } from '../../repositories/BabyNameRepository';
+import BabyName from '../../models/BabyNameModel';
+import NameYearStat from '../../models/NameYearStatModel';
+import NameDecadeStat from '../../models/NameDecadeStatModel';
+import NameSummary from '../../models/NameSummaryModel';
+import NameGenderSplit from '../../models/NameGenderSplitModel';
+import type { Sex } from '../BabyNameQueryService';
+
+const logger = rootLogger.child({ service: 'NameAnalytics' });
+
+export interface YearStat {
+  name: string;
+  sex: Sex;
+  year: number;
+  count: number;
+  rank: number;
+  share: number;
+}
+
+export interface DecadeStat {
+  name: string;
+  sex: Sex;
+  decade: number;
+  count: number;
+  share: number;
+  growth: number | null;
+}
+
+export interface NameSummaryRow {
+  name: string;
+  sex: Sex;
+  totalCount: number;
+  firstYear: number;
+  lastYear: number;
+  peakYear: number;
+  peakCount: number;
+  peakShare: number;
+  bestRank: number;
+}
+
+export interface GenderSplit {
+  name: string;
+  maleCount: number;
+  femaleCount: number;
+  totalCount: number;
+  unisexScore: number;
+}
+
+export interface NameTrend {
+  name: string;
+  summaries: NameSummaryRow[];
+  split: GenderSplit | null;
+  years: YearStat[];
+  decades: DecadeStat[];
+}
+
+export interface Mover {
+  name: string;
+  sex: Sex;
+  fromRank: number | null;    // null when the name wasn't given that year
+  toRank: number | null;
+  fromShare: number;
+  toShare: number;
+  shareChange: number;        // toShare - fromShare
+}
+
+export interface MoversReport {
+  from: number;
+  to: number;
+  sex: Sex | null;
+  risers: Mover[];
+  fallers: Mover[];
+}
+
+export interface RefreshResult {
+  years: number;
+  yearRows: number;
+  decadeRows: number;
+  summaries: number;
+  names: number;
+  durationMs: number;
+}
+
+/** Competition ranking ("1224") by count, for rows of one year and sex sorted by count descending. */
+export function rankByCount<T extends { count: number }>(rows: T[]): (T & { rank: number })[] {
+  let rank = 0;
+  return rows.map((row, index) => {
+    if (index === 0 || row.count !== rows[index - 1].count) {
+      rank = index + 1;
+    }
+    return { ...row, rank };
+  });
+}
+
+/** 0 when only one sex has the name, 1 for an even split. */
+export const unisexScore = (male: number, female: number): number =>
+  male + female === 0 ? 0 : 1 - Math.abs(male - female) / (male + female);
+
+/** Relative change; null when there is nothing to grow from. */
+export const growth = (previous: number | undefined, current: number): number | null =>
+  !previous ? null : (current - previous) / previous;
+
+const decadeOf = (year: number): number => Math.floor(year / 10) * 10;
+
+const toNumber = (value: unknown): number => Number(value ?? 0);
+
+/**
+ * Precomputed name analytics: per-year rank and share of births, decade
+ * totals with growth, per-name peaks and M/F splits. refresh() rebuilds the
+ * summary tables from BabyNames in one transaction (rows without a year are
+ * left out); the query methods only read the summary tables.
+ */
+export class NameAnalyticsService {
+  constructor(private insertBatchSize: number = envConfig.app.batchSize || 1000) {}
+
+  private async insert(model: ModelStatic<Model>, rows: object[], transaction: Transaction): Promise<void> {
+    for (let i = 0; i < rows.length; i += this.insertBatchSize) {
+      await model.bulkCreate(rows.slice(i, i + this.insertBatchSize) as any[], { transaction, logging: false });
+    }
+  }
+
+  async refresh(): Promise<RefreshResult> {
+    const startedAt = Date.now();
+
+    try {
+      const years = (await BabyName.findAll({
+        attributes: [[fn('DISTINCT', col('year')), 'year']],
+        where: { year: { [Op.ne]: null } },
+        raw: true,
+        logging: false,
+      }) as any[]).map(row => toNumber(row.year)).sort((a, b) => a - b);
+
+      logger.info(`Refreshing name analytics for ${years.length} years...`);
+
+      const summaries = new Map<string, NameSummaryRow>();
+      const decades = new Map<string, { name: string; sex: Sex; decade: number; count: number }>();
+      const decadeTotals = new Map<string, number>();   // `${sex}|${decade}` → births
+      const splits = new Map<string, GenderSplit>();
+      let yearRows = 0;
+
+      await sequelize.transaction(async (transaction) => {
+        for (const model of [NameYearStat, NameDecadeStat, NameSummary, NameGenderSplit]) {
+          await model.destroy({ where: {}, transaction, logging: false });
+        }
+
+        for (const year of years) {
+          const rows = await BabyName.findAll({
+            attributes: ['name', 'sex', 'count'],
+            where: { year },
+            order: [['id', 'ASC']],
+            raw: true,
+            logging: false,
+            transaction,
+          }) as any[];
+
+          // Legacy duplicates of a key are summed under the first spelling seen
+          const byKey = new Map<string, { name: string; sex: Sex; count: number }>();
+          for (const row of rows) {
+            const key = `${foldName(row.name)}|${row.sex}`;
+            const existing = byKey.get(key);
+            if (existing) existing.count += row.count;
+            else byKey.set(key, { name: row.name, sex: row.sex, count: row.count });
+          }
+
+          const stats: YearStat[] = [];
+          for (const sex of ['F', 'M'] as Sex[]) {
+            const ofSex = [...byKey.values()]
+              .filter(r => r.sex === sex)
+              .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+            const total = ofSex.reduce((sum, r) => sum + r.count, 0);
+            for (const row of rankByCount(ofSex)) {
+              stats.push({ ...row, year, share: total === 0 ? 0 : row.count / total });
+            }
+            const decadeKey = `${sex}|${decadeOf(year)}`;
+            decadeTotals.set(decadeKey, (decadeTotals.get(decadeKey) ?? 0) + total);
+          }
+
+          await this.insert(NameYearStat, stats, transaction);
+          yearRows += stats.length;
+
+          for (const stat of stats) {
+            const key = `${foldName(stat.name)}|${stat.sex}`;
+
+            const decadeKey = `${key}|${decadeOf(year)}`;
+            const decade = decades.get(decadeKey);
+            if (decade) decade.count += stat.count;
+            else decades.set(decadeKey, { name: stat.name, sex: stat.sex, decade: decadeOf(year), count: stat.count });
+
+            const summary = summaries.get(key);
+            if (!summary) {
+              summaries.set(key, {
+                name: stat.name,
+                sex: stat.sex,
+                totalCount: stat.count,
+                firstYear: year,
+                lastYear: year,
+                peakYear: year,
+                peakCount: stat.count,
+                peakShare: stat.share,
+                bestRank: stat.rank,
+              });
+              continue;
+            }
+            summary.totalCount += stat.count;
+            summary.lastYear = year;
+            summary.bestRank = Math.min(summary.bestRank, stat.rank);
+            if (stat.share > summary.peakShare) {
+              summary.peakYear = year;
+              summary.peakCount = stat.count;
+              summary.peakShare = stat.share;
+            }
+          }
+        }
+
+        const decadeStats: DecadeStat[] = [...decades.entries()].map(([key, d]) => {
+          const previous = decades.get(key.replace(/\|\d+$/, `|${d.decade - 10}`));
+          const total = decadeTotals.get(`${d.sex}|${d.decade}`) ?? 0;
+          return { ...d, share: total === 0 ? 0 : d.count / total, growth: growth(previous?.count, d.count) };
+        });
+        await this.insert(NameDecadeStat, decadeStats, transaction);
+
+        await this.insert(NameSummary, [...summaries.values()], transaction);
+
+        for (const summary of summaries.values()) {
+          const key = foldName(summary.name);
+          const split = splits.get(key) ?? { name: summary.name, maleCount: 0, femaleCount: 0, totalCount: 0, unisexScore: 0 };
+          if (summary.sex === 'M') split.maleCount += summary.totalCount;
+          else split.femaleCount += summary.totalCount;
+          split.totalCount = split.maleCount + split.femaleCount;
+          split.unisexScore = unisexScore(split.maleCount, split.femaleCount);
+          splits.set(key, split);
+        }
+        await this.insert(NameGenderSplit, [...splits.values()], transaction);
+      });
+
+      const result: RefreshResult = {
+        years: years.length,
+        yearRows,
+        decadeRows: decades.size,
+        summaries: summaries.size,
+        names: splits.size,
+        durationMs: Date.now() - startedAt,
+      };
+      logger.success(
+        `Name analytics refreshed: ${result.yearRows} year rows, ${result.decadeRows} decade rows, ` +
+        `${result.names} names in ${(result.durationMs / 1000).toFixed(1)}s`
+      );
+      return result;
+    } catch (error) {
+      await handleError(error, 'NameAnalytics', 'Failed to refresh name analytics');
+      throw error;
+    }
+  }
+
+  /** Everything precomputed for one name (case-insensitive), both sexes unless `sex` is given. */
+  async trend(name: string, sex?: Sex): Promise<NameTrend> {
+    const where = { name: { [caseInsensitiveLike()]: name }, ...(sex ? { sex } : {}) };
+
+    const [summaries, years, decades, split] = await Promise.all([
+      NameSummary.findAll({ where, order: [['sex', 'ASC']], raw: true, logging: false }),
+      NameYearStat.findAll({ where, order: [['year', 'ASC'], ['sex', 'ASC']], raw: true, logging: false }),
+      NameDecadeStat.findAll({ where, order: [['decade', 'ASC'], ['sex', 'ASC']], raw: true, logging: false }),
+      NameGenderSplit.findOne({ where: { name: where.name }, raw: true, logging: false }),
+    ]) as [any[], any[], any[], any];
+
+    if (summaries.length === 0) {
+      throw new AppError(
+        'NAME_NOT_FOUND',
+        404,
+        `No analytics for name "${name}"${sex ? ` and sex ${sex}` : ''}; run the analytics refresh if it was imported recently`
+      );
+    }
+
+    return {
+      name: summaries[0].name,
+      summaries: summaries.map(s => ({ ...s, totalCount: toNumber(s.totalCount) })),
+      split: split && {
+        ...split,
+        maleCount: toNumber(split.maleCount),
+        femaleCount: toNumber(split.femaleCount),
+        totalCount: toNumber(split.totalCount),
+      },
+      years,
+      decades,
+    };
+  }
+
+  /**
+   * Names whose share of births changed most between two years, per sex
+   * unless `sex` is given. A name missing from one of the years counts as
+   * a share of 0 there, so newcomers can rise and vanished names fall.
+   */
+  async movers(from: number, to: number, options: { sex?: Sex; limit?: number } = {}): Promise<MoversReport> {
+    if (from === to) {
+      throw new AppError('INVALID_YEAR_RANGE', 400, `Compare two different years (got ${from} twice)`);
+    }
+    const limit = options.limit ?? 10;
+
+    const rows = await NameYearStat.findAll({
+      attributes: ['name', 'sex', 'year', 'rank', 'share'],
+      where: { year: [from, to], ...(options.sex ? { sex: options.sex } : {}) },
+      raw: true,
+      logging: false,
+    }) as any[];
+
+    const byKey = new Map<string, Mover>();
+    for (const row of rows) {
+      const key = `${foldName(row.name)}|${row.sex}`;
+      const mover = byKey.get(key) ?? {
+        name: row.name, sex: row.sex, fromRank: null, toRank: null, fromShare: 0, toShare: 0, shareChange: 0,
+      };
+      if (row.year === from) {
+        mover.fromRank = row.rank;
+        mover.fromShare = row.share;
+      } else {
+        mover.toRank = row.rank;
+        mover.toShare = row.share;
+      }
+      mover.shareChange = mover.toShare - mover.fromShare;
+      byKey.set(key, mover);
+    }
+
+    const movers = [...byKey.values()];
+    return {
+      from,
+      to,
+      sex: options.sex ?? null,
+      risers: movers.filter(m => m.shareChange > 0).sort((a, b) => b.shareChange - a.shareChange).slice(0, limit),
+      fallers: movers.filter(m => m.shareChange < 0).sort((a, b) => a.shareChange - b.shareChange).slice(0, limit),
+    };
+  }
+
+  /** Most gender-neutral names with at least `minCount` births in total. */
+  async unisex(options: { limit?: number; minCount?: number } = {}): Promise<GenderSplit[]> {
+    const rows = await NameGenderSplit.findAll({
+      attributes: ['name', 'maleCount', 'femaleCount', 'totalCount', 'unisexScore'],
+      where: { totalCount: { [Op.gte]: options.minCount ?? 1000 }, unisexScore: { [Op.gt]: 0 } },
+      order: [['unisexScore', 'DESC'], ['totalCount', 'DESC']],
+      limit: options.limit ?? 20,
+      raw: true,
+      logging: false,
+    }) as any[];
+
+    return rows.map(row => ({
+      name: row.name,
+      maleCount: toNumber(row.maleCount),
+      femaleCount: toNumber(row.femaleCount),
+      totalCount: toNumber(row.totalCount),
+      unisexScore: row.unisexScore,
+    }));
+  }
+}
@@ -0,0 +1,16 @@
+// src/services/downloaders/DatasetDownloader.ts
+
+/** A way of fetching the dataset archive into a local directory. */
+export interface DatasetDownloader {
+  readonly name: string;
+  readonly sourceUrl: string;
+
+  /** True when this strategy has the credentials it needs. */
+  isConfigured(): boolean;
+
+  /** Downloads the dataset into `destDir` and returns the saved file path. */
+  download(destDir: string): Promise<string>;
+
+  /** Upstream version number, when the source can report it without downloading. */
+  latestVersion?(): Promise<number | null>;
+}
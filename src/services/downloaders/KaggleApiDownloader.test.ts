@@ -0,0 +1,68 @@
+// src/services/downloaders/KaggleApiDownloader.test.ts
+
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { KaggleMockServer } from '../../testing/KaggleMockServer';
+import { AppError } from '../../utils/ErrorHandler';
+import { KaggleApiDownloader } from './KaggleApiDownloader';
+
+const credentials = { username: 'mock-user', key: 'mock-key' };
+const body = `YearOfBirth,Name,Sex,Number\n${'1880,Mary,F,7065\n'.repeat(2000)}`;
+
+describe('KaggleApiDownloader', () => {
+  const server = new KaggleMockServer({
+    chunkSize: 1024,
+    datasets: {
+      'owner/names': { fileName: 'names.csv', body },
+      'owner/dropped': { fileName: 'dropped.csv', body, failAfterBytes: 4096 },
+    },
+  });
+  let apiBaseUrl: string;
+  let destDir: string;
+
+  before(async () => {
+    apiBaseUrl = await server.start();
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    destDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kaggle-api-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(destDir, { recursive: true, force: true });
+  });
+
+  it('streams the dataset to disk under the name from Content-Disposition', async () => {
+    const filePath = await new KaggleApiDownloader('owner/names', apiBaseUrl, credentials).download(destDir);
+
+    assert.equal(filePath, path.join(destDir, 'names.csv'));
+    assert.equal(fs.readFileSync(filePath, 'utf8'), body);
+    assert.deepEqual(fs.readdirSync(destDir), ['names.csv']);
+  });
+
+  it('turns a 401 into KAGGLE_AUTH_ERROR', async () => {
+    const downloader = new KaggleApiDownloader('owner/names', apiBaseUrl, { username: 'mock-user', key: 'wrong' });
+
+    await assert.rejects(downloader.download(destDir), (error: unknown) => {
+      assert.ok(error instanceof AppError);
+      assert.equal(error.code, 'KAGGLE_AUTH_ERROR');
+      assert.equal(error.statusCode, 401);
+      return true;
+    });
+    assert.deepEqual(fs.readdirSync(destDir), []);
+  });
+
+  it('removes the .part file when the transfer is cut off', async () => {
+    const downloader = new KaggleApiDownloader('owner/dropped', apiBaseUrl, credentials);
+
+    await assert.rejects(downloader.download(destDir));
+    assert.deepEqual(fs.readdirSync(destDir), []);
+  });
+});
@@ -0,0 +1,154 @@
+// src/services/downloaders/KaggleApiDownloader.ts
+
+import axios from 'axios';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { logger } from '../../utils/Logger';
+import { AppError } from '../../utils/ErrorHandler';
+import { DatasetDownloader } from './DatasetDownloader';
+
+export interface KaggleApiCredentials {
+  username: string;
+  key: string;
+}
+
+/**
+ * Downloads through Kaggle's public API
+ * (GET /api/v1/datasets/download/{owner}/{dataset}) with an API token,
+ * streaming the archive straight to disk.
+ */
+export class KaggleApiDownloader implements DatasetDownloader {
+  readonly name = 'api';
+  private credentials: KaggleApiCredentials | null;
+
+  constructor(
+    private dataset: string,     // "owner/dataset-slug"
+    private apiBaseUrl: string = 'https://www.kaggle.com/api/v1',
+    credentials?: KaggleApiCredentials | null
+  ) {
+    this.credentials = credentials === undefined ? KaggleApiDownloader.loadCredentials() : credentials;
+  }
+
+  /**
+   * Same lookup order as the official CLI: KAGGLE_USERNAME/KAGGLE_KEY, then
+   * kaggle.json in KAGGLE_CONFIG_DIR or ~/.kaggle.
+   */
+  static loadCredentials(): KaggleApiCredentials | null {
+    if (process.env.KAGGLE_USERNAME && process.env.KAGGLE_KEY) {
+      return { username: process.env.KAGGLE_USERNAME, key: process.env.KAGGLE_KEY };
+    }
+
+    const configDir = process.env.KAGGLE_CONFIG_DIR || path.join(os.homedir(), '.kaggle');
+    const file = path.join(configDir, 'kaggle.json');
+    if (!fs.existsSync(file)) {
+      return null;
+    }
+
+    try {
+      const { username, key } = JSON.parse(fs.readFileSync(file, 'utf8'));
+      return username && key ? { username, key } : null;
+    } catch (error: any) {
+      throw new AppError('INVALID_CONFIG', 400, `Could not parse ${file}: ${error.message}`);
+    }
+  }
+
+  get sourceUrl(): string {
+    return `${this.apiBaseUrl}/datasets/download/${this.dataset}`;
+  }
+
+  isConfigured(): boolean {
+    return this.credentials !== null;
+  }
+
+  /** currentVersionNumber from the dataset metadata; null if it can't be read. */
+  async latestVersion(): Promise<number | null> {
+    if (!this.credentials) {
+      return null;
+    }
+
+    try {
+      const response = await axios.get(`${this.apiBaseUrl}/datasets/view/${this.dataset}`, {
+        auth: { username: this.credentials.username, password: this.credentials.key },
+        timeout: 30000,
+      });
+      const version = response.data?.currentVersionNumber;
+      return typeof version === 'number' ? version : null;
+    } catch (error: any) {
+      logger.warn(`Could not read Kaggle dataset version: ${error.message}`);
+      return null;
+    }
+  }
+
+  private fileNameFrom(contentDisposition?: string): string {
+    const match = contentDisposition?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+    const fallback = `${this.dataset.split('/').pop()}.zip`;
+    return path.basename(match ? decodeURIComponent(match[1]) : fallback);
+  }
+
+  async download(destDir: string): Promise<string> {
+    if (!this.credentials) {
+      throw new AppError(
+        'MISSING_CONFIG',
+        400,
+        'Kaggle API credentials not found (set KAGGLE_USERNAME/KAGGLE_KEY or provide kaggle.json)'
+      );
+    }
+
+    const url = this.sourceUrl;
+    logger.info(`Downloading ${this.dataset} via Kaggle API...`);
+
+    let response;
+    try {
+      response = await axios.get(url, {
+        auth: { username: this.credentials.username, password: this.credentials.key },
+        responseType: 'stream',
+        maxRedirects: 5,
+        timeout: 60000,
+      });
+    } catch (error: any) {
+      const status = error.response?.status;
+      if (status === 401 || status === 403) {
+        throw new AppError('KAGGLE_AUTH_ERROR', status, 'Kaggle rejected the API credentials');
+      }
+      if (status === 404) {
+        throw new AppError('DATASET_NOT_FOUND', 404, `Kaggle dataset not found: ${this.dataset}`);
+      }
+      throw error;
+    }
+
+    const filePath = path.join(destDir, this.fileNameFrom(response.headers['content-disposition']));
+    const partPath = `${filePath}.part`;
+    const total = parseInt(response.headers['content-length'] ?? '', 10);
+
+    let received = 0;
+    let nextReport = 10;
+    const progress = new Transform({
+      transform(chunk, _encoding, callback) {
+        received += chunk.length;
+        if (!Number.isNaN(total) && total > 0) {
+          const percent = Math.floor((received / total) * 100);
+          if (percent >= nextReport) {
+            logger.info(`Downloaded ${percent}% (${(received / 1048576).toFixed(1)} MB of ${(total / 1048576).toFixed(1)} MB)`);
+            nextReport = percent - (percent % 10) + 10;
+          }
+        }
+        callback(null, chunk);
+      },
+    });
+
+    // Write to a .part file so an interrupted download is never mistaken for a complete one
+    try {
+      await pipeline(response.data, progress, fs.createWriteStream(partPath));
+      fs.renameSync(partPath, filePath);
+    } catch (error) {
+      fs.rmSync(partPath, { force: true });
+      throw error;
+    }
+
+    logger.success(`File downloaded: ${filePath} (${(received / 1048576).toFixed(1)} MB)`);
+    return filePath;
+  }
+}
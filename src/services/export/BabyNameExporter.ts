@@ -0,0 +1,156 @@
+// src/services/export/BabyNameExporter.ts
+
+import fs from 'fs';
+import path from 'path';
+import { Op, WhereOptions } from 'sequelize';
+import { envConfig } from '../../config/EnvConfig';
+import { logger as rootLogger } from '../../utils/Logger';
+import { AppError } from '../../utils/ErrorHandler';
+import { caseInsensitiveLike } from '../../database/Dialect';
+import { babyNameRepository } from '../../repositories/BabyNameRepository';
+import type { Sex } from '../BabyNameQueryService';
+import { ExportFormatName, PartWriter, exportFormat } from './ExportFormats';
+
+const logger = rootLogger.child({ service: 'Export' });
+
+export interface ExportFilters {
+  sex?: Sex;
+  yearFrom?: number;      // Inclusive; rows without a year are left out when either bound is set
+  yearTo?: number;        // Inclusive
+  prefix?: string;        // Case-insensitive name prefix
+  minCount?: number;
+}
+
+export interface ExportOptions extends ExportFilters {
+  format: ExportFormatName;
+  outPath?: string;       // Default: EXPORT_DIR/baby-names.<ext>; the extension is added when missing
+  gzip?: boolean;
+  maxBytes?: number;      // Start a new numbered part once a file reaches this size
+}
+
+export interface ExportedFile {
+  path: string;
+  rows: number;
+  bytes: number;
+}
+
+export interface ExportResult {
+  format: ExportFormatName;
+  rows: number;
+  files: ExportedFile[];
+  durationMs: number;
+}
+
+const megabytes = (bytes: number): string => `${(bytes / 1048576).toFixed(1)} MB`;
+
+/**
+ * Streams BabyNames rows matching the filters into CSV, NDJSON or Parquet
+ * files. Rows are read with keyset pagination and written as they arrive,
+ * so memory use doesn't grow with the table.
+ */
+export class BabyNameExporter {
+  constructor(
+    private exportDir: string = envConfig.app.exportDir,
+    private pageSize: number = 5000
+  ) {}
+
+  async export(options: ExportOptions): Promise<ExportResult> {
+    const startedAt = Date.now();
+    this.assertValid(options);
+
+    const format = exportFormat(options.format);
+    const gzip = options.gzip ?? false;
+    const extension = format.extension(gzip);
+    const stem = this.stem(options.outPath, extension);
+    const partPath = (part: number): string =>
+      options.maxBytes ? `${stem}-${String(part).padStart(5, '0')}${extension}` : `${stem}${extension}`;
+
+    await fs.promises.mkdir(path.dirname(stem), { recursive: true });
+    logger.info(`Exporting BabyNames as ${format.name}${gzip ? ' (gzip)' : ''} to ${partPath(1)}${options.maxBytes ? ' ...' : ''}`);
+
+    const files: ExportedFile[] = [];
+    let writer: PartWriter | null = null;
+
+    const openPart = async (): Promise<PartWriter> => {
+      files.push({ path: partPath(files.length + 1), rows: 0, bytes: 0 });
+      return format.open(files[files.length - 1].path, gzip);
+    };
+
+    const closePart = async (part: PartWriter): Promise<void> => {
+      await part.close();
+      const file = files[files.length - 1];
+      file.bytes = (await fs.promises.stat(file.path)).size;
+      logger.info(`Wrote ${file.path}: ${file.rows} rows, ${megabytes(file.bytes)}`);
+    };
+
+    try {
+      const rows = babyNameRepository.rows({
+        where: { [Op.and]: this.where(options) },
+        attributes: ['name', 'sex', 'year', 'count'],
+        pageSize: this.pageSize,
+      });
+
+      for await (const row of rows) {
+        if (!writer) {
+          writer = await openPart();
+        }
+        await writer.write({ name: row.name, sex: row.sex, year: row.year, count: row.count });
+        files[files.length - 1].rows++;
+
+        if (options.maxBytes && writer.bytes >= options.maxBytes) {
+          await closePart(writer);
+          writer = null;
+        }
+      }
+
+      // Nothing matched: still write one file, so consumers find a header or schema rather than nothing
+      if (files.length === 0) {
+        writer = await openPart();
+      }
+      if (writer) {
+        await closePart(writer);
+        writer = null;
+      }
+    } catch (error) {
+      await writer?.close().catch(() => {});
+      throw error;
+    }
+
+    const result: ExportResult = {
+      format: format.name,
+      rows: files.reduce((sum, file) => sum + file.rows, 0),
+      files,
+      durationMs: Date.now() - startedAt,
+    };
+    const totalBytes = files.reduce((sum, file) => sum + file.bytes, 0);
+    logger.success(
+      `Exported ${result.rows} rows to ${files.length} file(s), ${megabytes(totalBytes)} in ${(result.durationMs / 1000).toFixed(1)}s`
+    );
+    return result;
+  }
+
+  private assertValid(options: ExportOptions): void {
+    if (options.yearFrom !== undefined && options.yearTo !== undefined && options.yearFrom > options.yearTo) {
+      throw new AppError('INVALID_ARGUMENT', 400, `Year range ${options.yearFrom}-${options.yearTo} is empty`);
+    }
+    if (options.maxBytes !== undefined && options.maxBytes <= 0) {
+      throw new AppError('INVALID_ARGUMENT', 400, `Split size must be positive, got ${options.maxBytes}`);
+    }
+  }
+
+  private where(filters: ExportFilters): WhereOptions[] {
+    const where: WhereOptions[] = [];
+    if (filters.sex) where.push({ sex: filters.sex });
+    if (filters.yearFrom !== undefined) where.push({ year: { [Op.gte]: filters.yearFrom } });
+    if (filters.yearTo !== undefined) where.push({ year: { [Op.lte]: filters.yearTo } });
+    if (filters.prefix) where.push({ name: { [caseInsensitiveLike()]: `${filters.prefix}%` } });
+    if (filters.minCount !== undefined) where.push({ count: { [Op.gte]: filters.minCount } });
+    return where;
+  }
+
+  /** Output path without the format's extension; parts are numbered between the two. */
+  private stem(outPath: string | undefined, extension: string): string {
+    const target = outPath ?? path.join(this.exportDir, `baby-names${extension}`);
+    return target.endsWith(extension) ? target.slice(0, -extension.length) : target;
+  }
+}
@@ -0,0 +1,187 @@
+// src/services/export/ExportFormats.ts
+//
+// Output formats for BabyNameExporter. A format opens one file at a time
+// (a "part"); the exporter decides when to close it and start the next.
+
+import fs from 'fs';
+import { once } from 'events';
+import { Writable } from 'stream';
+import { finished, pipeline } from 'stream/promises';
+import zlib from 'zlib';
+import parquet from '@dsnp/parquetjs';
+import type { Sex } from '../BabyNameQueryService';
+
+export type ExportFormatName = 'csv' | 'ndjson' | 'parquet';
+
+export const EXPORT_FORMAT_NAMES: ExportFormatName[] = ['csv', 'ndjson', 'parquet'];
+
+export interface ExportRow {
+  name: string;
+  sex: Sex;
+  year: number | null;
+  count: number;
+}
+
+const COLUMNS: (keyof ExportRow)[] = ['name', 'sex', 'year', 'count'];
+
+export interface PartWriter {
+  write(row: ExportRow): Promise<void>;
+  close(): Promise<void>;
+  /** Size of the file so far; for gzip and Parquet it lags by what the compressor or the current row group holds. */
+  readonly bytes: number;
+}
+
+export interface ExportFormat {
+  name: ExportFormatName;
+  /** File extension, including .gz when the whole file is gzipped. */
+  extension(gzip: boolean): string;
+  open(filePath: string, gzip: boolean): Promise<PartWriter>;
+}
+
+/**
+ * A file opened for writing, optionally through gzip, that counts its size
+ * as it goes: exactly for plain files, and as compressed output for gzip,
+ * which lags by what the compressor and file stream still buffer.
+ */
+class CountingFile {
+  bytes = 0;
+  private input: Writable;
+  private done: Promise<void>;
+
+  constructor(filePath: string, private gzip: boolean) {
+    const file = fs.createWriteStream(filePath);
+
+    if (gzip) {
+      const compressor = zlib.createGzip();
+      compressor.on('data', (chunk: Buffer) => {
+        this.bytes += chunk.length;
+      });
+      this.input = compressor;
+      this.done = pipeline(compressor, file);
+    } else {
+      this.input = file;
+      this.done = finished(file);
+    }
+    // Surfaced by write() or close(); keeps an early failure from going unhandled
+    this.done.catch(() => {});
+  }
+
+  async write(chunk: string | Buffer): Promise<void> {
+    if (!this.gzip) {
+      this.bytes += Buffer.byteLength(chunk);
+    }
+    if (!this.input.write(chunk)) {
+      await once(this.input, 'drain');
+    }
+  }
+
+  /** What ParquetWriter.openStream needs: write with a callback, and end. */
+  asStream(): fs.WriteStream {
+    return {
+      write: (chunk: Buffer, callback: (error?: Error | null) => void) => {
+        if (!this.gzip) {
+          this.bytes += chunk.length;
+        }
+        return this.input.write(chunk, callback);
+      },
+      end: (callback: () => void) => this.input.end(callback),
+    } as unknown as fs.WriteStream;
+  }
+
+  /** Waits until everything is flushed to disk. */
+  async close(): Promise<void> {
+    if (!this.input.writableEnded) {
+      this.input.end();
+    }
+    await this.done;
+  }
+}
+
+/** Quotes a field only when it holds a delimiter, quote or line break (RFC 4180). */
+const csvField = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Comma-separated with a header row in every part; a missing year is an empty field. */
+const csvFormat: ExportFormat = {
+  name: 'csv',
+  extension: (gzip) => (gzip ? '.csv.gz' : '.csv'),
+  async open(filePath, gzip) {
+    const file = new CountingFile(filePath, gzip);
+    await file.write(`${COLUMNS.join(',')}\n`);
+    return {
+      write: (row) => file.write(`${COLUMNS.map(column => csvField(row[column])).join(',')}\n`),
+      close: () => file.close(),
+      get bytes() {
+        return file.bytes;
+      },
+    };
+  },
+};
+
+/** One JSON object per line (JSON Lines / NDJSON). */
+const ndjsonFormat: ExportFormat = {
+  name: 'ndjson',
+  extension: (gzip) => (gzip ? '.ndjson.gz' : '.ndjson'),
+  async open(filePath, gzip) {
+    const file = new CountingFile(filePath, gzip);
+    return {
+      write: (row) => file.write(`${JSON.stringify({ name: row.name, sex: row.sex, year: row.year, count: row.count })}\n`),
+      close: () => file.close(),
+      get bytes() {
+        return file.bytes;
+      },
+    };
+  },
+};
+
+// Rows buffered per row group; bounds the writer's memory
+const PARQUET_ROW_GROUP_SIZE = 10_000;
+
+/**
+ * Apache Parquet. Gzip applies to the column chunks inside the file (the
+ * Parquet GZIP codec) rather than to the file, which readers couldn't open.
+ */
+const parquetFormat: ExportFormat = {
+  name: 'parquet',
+  extension: () => '.parquet',
+  async open(filePath, gzip) {
+    const compression = gzip ? 'GZIP' : 'UNCOMPRESSED';
+    const schema = new parquet.ParquetSchema({
+      name: { type: 'UTF8', compression },
+      sex: { type: 'UTF8', compression },
+      year: { type: 'INT32', optional: true, compression },
+      count: { type: 'INT32', compression },
+    });
+
+    const file = new CountingFile(filePath, false);
+    const writer = await parquet.ParquetWriter.openStream(schema, file.asStream(), {
+      rowGroupSize: PARQUET_ROW_GROUP_SIZE,
+    });
+    return {
+      write: (row) => writer.appendRow({ ...row, year: row.year ?? undefined }),
+      async close() {
+        // Writes the last row group and the footer, then ends the stream
+        await writer.close();
+        await file.close();
+      },
+      get bytes() {
+        return file.bytes;
+      },
+    };
+  },
+};
+
+const FORMATS: Record<ExportFormatName, ExportFormat> = {
+  csv: csvFormat,
+  ndjson: ndjsonFormat,
+  parquet: parquetFormat,
+};
+
+export function exportFormat(name: ExportFormatName): ExportFormat {
+  return FORMATS[name];
+}
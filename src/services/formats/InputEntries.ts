@@ -0,0 +1,143 @@
+// src/services/formats/InputEntries.ts
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { PassThrough, Readable, Transform, pipeline } from 'stream';
+import yauzl, { Entry, ZipFile } from 'yauzl';
+import { AppError } from '../../utils/ErrorHandler';
+import { SsaYobFormat } from './RowFormat';
+
+/** One importable stream: a plain file, a gunzipped file, or an entry inside a ZIP. */
+export interface InputEntry {
+  name: string;               // File or entry name the format is chosen from, e.g. "yob1999.txt"
+  archive: string | null;     // Containing .zip/.gz file name, if any
+  label: string;              // For log lines, e.g. "names.zip:yob1999.txt"
+  open(): Readable;           // Raw bytes; may be called more than once
+}
+
+const DELIMITED = /\.(csv|tsv)$/i;
+
+/** Delimited text files the importer understands, judged by name. */
+export function isImportable(name: string): boolean {
+  const baseName = path.basename(name);
+  return DELIMITED.test(baseName) || SsaYobFormat.FILE_PATTERN.test(baseName);
+}
+
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+
+// pipeline() rather than pipe() so a failing source also errors the returned stream
+const chain = (source: Readable, transform: Transform): Readable => pipeline(source, transform, () => {});
+
+const openZip = (filePath: string): Promise<ZipFile> =>
+  new Promise((resolve, reject) => {
+    yauzl.open(filePath, { lazyEntries: true, autoClose: false }, (error, zip) => (error ? reject(error) : resolve(zip)));
+  });
+
+/** Reads the ZIP's central directory; no entry data is read. */
+async function listZipEntries(filePath: string): Promise<Entry[]> {
+  const zip = await openZip(filePath);
+  try {
+    return await new Promise<Entry[]>((resolve, reject) => {
+      const entries: Entry[] = [];
+      zip.on('entry', (entry: Entry) => {
+        entries.push(entry);
+        zip.readEntry();
+      });
+      zip.once('end', () => resolve(entries));
+      zip.once('error', reject);
+      zip.readEntry();
+    });
+  } finally {
+    zip.close();
+  }
+}
+
+/**
+ * Streams one ZIP entry from the file descriptor, inflating as it reads, so
+ * memory stays flat however large the archive is. Nothing is extracted to disk.
+ */
+const openZipEntry = (filePath: string, zipName: string, entry: Entry): Readable => {
+  if (entry.compressionMethod !== ZIP_STORED && entry.compressionMethod !== ZIP_DEFLATED) {
+    throw new AppError(
+      'UNSUPPORTED_ZIP_ENTRY',
+      400,
+      `${zipName}:${entry.fileName} uses unsupported compression method ${entry.compressionMethod}`
+    );
+  }
+
+  const output = new PassThrough();
+  openZip(filePath).then(
+    zip => zip.openReadStream(entry, (error, stream) => {
+      // The descriptor stays open until the entry's stream ends
+      zip.close();
+      if (error) {
+        output.destroy(error);
+        return;
+      }
+      pipeline(stream, output, () => {});
+    }),
+    error => output.destroy(error)
+  );
+  return output;
+};
+
+/**
+ * Expands a source file into the entries to import: every importable entry
+ * of a ZIP (sorted by name), the decompressed contents of a .gz, or the file itself.
+ */
+export async function inputEntries(filePath: string): Promise<InputEntry[]> {
+  const baseName = path.basename(filePath);
+
+  if (/\.zip$/i.test(baseName)) {
+    const entries = (await listZipEntries(filePath))
+      .filter(e => !e.fileName.endsWith('/') && !e.fileName.startsWith('__MACOSX/') && isImportable(e.fileName))
+      .sort((a, b) => a.fileName.localeCompare(b.fileName));
+
+    if (entries.length === 0) {
+      throw new AppError(
+        'CSV_NOT_IN_ZIP',
+        400,
+        `No CSV, TSV or yobYYYY.txt file found inside ${baseName}`
+      );
+    }
+
+    return entries.map(entry => ({
+      name: path.basename(entry.fileName),
+      archive: baseName,
+      label: `${baseName}:${entry.fileName}`,
+      open: () => openZipEntry(filePath, baseName, entry),
+    }));
+  }
+
+  if (/\.gz$/i.test(baseName)) {
+    return [{
+      name: baseName.replace(/\.gz$/i, ''),
+      archive: baseName,
+      label: baseName,
+      open: () => chain(fs.createReadStream(filePath), zlib.createGunzip()),
+    }];
+  }
+
+  return [{
+    name: baseName,
+    archive: null,
+    label: baseName,
+    open: () => fs.createReadStream(filePath),
+  }];
+}
+
+/** Re-encodes bytes in `encoding` as UTF-8 for csv-parser, dropping any byte order mark. */
+export function decodeStream(encoding: string): Transform {
+  const decoder = new TextDecoder(encoding);
+  return new Transform({
+    transform(chunk, _encoding, callback) {
+      callback(null, Buffer.from(decoder.decode(chunk, { stream: true }), 'utf8'));
+    },
+    flush(callback) {
+      const rest = decoder.decode();
+      callback(null, rest ? Buffer.from(rest, 'utf8') : undefined);
+    },
+  });
+}
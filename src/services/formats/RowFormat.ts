@@ -0,0 +1,170 @@
+// src/services/formats/RowFormat.ts
+
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../../utils/Logger';
+import { AppError } from '../../utils/ErrorHandler';
+import { CsvFormatConfig, defaultCsvFormat, ssaYobFormat } from '../../config/CsvFormatConfig';
+
+// A type alias (not an interface) so it stays assignable to Sequelize's creation attributes
+export type BabyNameRow = {
+  name: string;
+  sex: string;
+  year: number | null;
+  count: number;
+};
+
+/** Field values as read from the file, before validation and normalisation. */
+export interface RawBabyNameRow {
+  name?: string;
+  sex?: string;
+  year?: string;
+  count?: string;
+}
+
+/**
+ * Picks the BabyName fields out of parsed rows from one kind of source file.
+ * `headers` is passed to csv-parser: undefined reads the header line,
+ * an array names the columns of a headerless file.
+ */
+export interface RowFormat {
+  readonly name: string;
+  readonly headers?: string[];
+  readonly separator: string;
+  readonly encoding: string;
+  extract(row: Record<string, string>): RawBabyNameRow;
+}
+
+/** Reads the columns named in a CsvFormatConfig; `year` overrides the year column when set. */
+export class ColumnMappedFormat implements RowFormat {
+  readonly headers?: string[];
+  readonly separator: string;
+  readonly encoding: string;
+
+  constructor(
+    readonly name: string,
+    private config: CsvFormatConfig = defaultCsvFormat,
+    private year: number | null = null
+  ) {
+    ColumnMappedFormat.validate(config);
+    this.headers = config.headers;
+    this.separator = config.delimiter ?? ',';
+    this.encoding = config.encoding ?? 'utf-8';
+  }
+
+  /** Loads a JSON format file, or the built-in Kaggle format when no path is given. */
+  static load(filePath?: string): CsvFormatConfig {
+    if (!filePath) {
+      return defaultCsvFormat;
+    }
+
+    const resolved = path.resolve(filePath);
+    if (!fs.existsSync(resolved)) {
+      throw new AppError('CSV_FORMAT_NOT_FOUND', 404, `CSV format file not found: ${resolved}`);
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(resolved, 'utf8'));
+    } catch (error: any) {
+      throw new AppError('INVALID_CSV_FORMAT', 400, `Could not parse ${resolved}: ${error.message}`);
+    }
+
+    ColumnMappedFormat.validate(raw as CsvFormatConfig);
+    logger.info(`Using CSV format from ${resolved}`);
+    return raw as CsvFormatConfig;
+  }
+
+  static validate(config: CsvFormatConfig): void {
+    if (!config || typeof config !== 'object' || typeof config.columns !== 'object' || config.columns === null) {
+      throw new AppError('INVALID_CSV_FORMAT', 400, 'CSV format must be an object with "columns"');
+    }
+
+    const errors: string[] = [];
+    const { columns } = config;
+
+    for (const key of ['name', 'sex'] as const) {
+      if (typeof columns[key] !== 'string' || columns[key].trim() === '') {
+        errors.push(`columns.${key} is required`);
+      }
+    }
+    for (const key of ['year', 'count'] as const) {
+      if (columns[key] !== undefined && typeof columns[key] !== 'string') {
+        errors.push(`columns.${key} must be a column name`);
+      }
+    }
+
+    if (config.delimiter !== undefined && (typeof config.delimiter !== 'string' || config.delimiter.length !== 1)) {
+      errors.push('delimiter must be a single character');
+    }
+
+    if (config.encoding !== undefined) {
+      try {
+        new TextDecoder(config.encoding);
+      } catch {
+        errors.push(`unsupported encoding "${config.encoding}"`);
+      }
+    }
+
+    if (config.headers !== undefined) {
+      if (!Array.isArray(config.headers) || config.headers.some(h => typeof h !== 'string')) {
+        errors.push('headers must be an array of column names');
+      } else {
+        for (const column of Object.values(columns)) {
+          if (typeof column === 'string' && !config.headers.includes(column)) {
+            errors.push(`column "${column}" is not one of the headers`);
+          }
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new AppError('INVALID_CSV_FORMAT', 400, `Invalid CSV format:\n  - ${errors.join('\n  - ')}`);
+    }
+  }
+
+  extract(row: Record<string, string>): RawBabyNameRow {
+    const { columns } = this.config;
+    return {
+      name: row[columns.name],
+      sex: row[columns.sex],
+      year: this.year !== null ? String(this.year) : columns.year ? row[columns.year] : undefined,
+      count: columns.count ? row[columns.count] : undefined,
+    };
+  }
+}
+
+/**
+ * SSA national files: yobYYYY.txt, one per year, headerless name,sex,count.
+ * The year only exists in the file name.
+ */
+export class SsaYobFormat extends ColumnMappedFormat {
+  static readonly FILE_PATTERN = /^yob(\d{4})\.txt$/i;
+
+  constructor(year: number) {
+    super('ssa-yob', ssaYobFormat, year);
+  }
+
+  static fromFileName(fileName: string): SsaYobFormat {
+    const match = path.basename(fileName).match(SsaYobFormat.FILE_PATTERN);
+    if (!match) {
+      throw new AppError('UNKNOWN_FORMAT', 400, `Not an SSA yobYYYY.txt file: ${fileName}`);
+    }
+    return new SsaYobFormat(parseInt(match[1], 10));
+  }
+}
+
+/**
+ * Picks the format from the file name: yobYYYY.txt is SSA, .tsv is the
+ * configured format with a tab delimiter, anything else the configured format.
+ */
+export function formatForFile(fileName: string, config: CsvFormatConfig = defaultCsvFormat): RowFormat {
+  const baseName = path.basename(fileName);
+  if (SsaYobFormat.FILE_PATTERN.test(baseName)) {
+    return SsaYobFormat.fromFileName(baseName);
+  }
+  if (/\.tsv$/i.test(baseName)) {
+    return new ColumnMappedFormat('tsv', { ...config, delimiter: '\t' });
+  }
+  return new ColumnMappedFormat('csv', config);
+}
@@ -0,0 +1,600 @@
+// src/services/search/DoubleMetaphone.ts
+//
+// Lawrence Philips' Double Metaphone. Each name gets a primary code and an
+// alternate one for a second plausible pronunciation (Germanic, Slavic,
+// Spanish, Italian...), e.g. "Jordan" → JRTN / ARTN. Codes use the letters
+// A F H J K L M N P R S T X (sh) and 0 (th).
+
+const VOWELS = new Set(['A', 'E', 'I', 'O', 'U', 'Y']);
+
+const isVowel = (char: string | undefined): boolean => char !== undefined && VOWELS.has(char);
+
+export interface MetaphoneCodes {
+  primary: string;
+  alternate: string;
+}
+
+/**
+ * `letters` must be upper-case A-Z and spaces (see asciiLetters in
+ * Phonetics.ts). Codes are cut to `maxLength`, 4 as in the original.
+ */
+export function doubleMetaphone(letters: string, maxLength: number = 4): MetaphoneCodes {
+  const length = letters.length;
+  const last = length - 1;
+  // Padding lets look-aheads past the end read spaces instead of undefined
+  const value = `${letters}     `;
+  const at = (index: number): string => (index < 0 ? '' : value[index]);
+  const slice = (start: number, end: number): string => value.slice(Math.max(0, start), Math.max(0, end));
+  const startsWith = (index: number, ...options: string[]): boolean =>
+    options.some(option => slice(index, index + option.length) === option);
+
+  const slavoGermanic = /W|K|CZ|WITZ/.test(letters);
+  const germanic = startsWith(0, 'VAN ', 'VON ', 'SCH');
+
+  let primary = '';
+  let alternate = '';
+  const add = (main: string, alt: string = main) => {
+    primary += main;
+    alternate += alt;
+  };
+
+  let index = 0;
+
+  // Silent first letter
+  if (startsWith(0, 'GN', 'KN', 'PN', 'WR', 'PS')) {
+    index++;
+  }
+
+  // Initial X sounds like Z, as in Xavier
+  if (at(0) === 'X') {
+    add('S');
+    index++;
+  }
+
+  while (index < length && (primary.length < maxLength || alternate.length < maxLength)) {
+    const char = at(index);
+    const previous = at(index - 1);
+    const next = at(index + 1);
+    const nextnext = at(index + 2);
+
+    switch (char) {
+      case 'A':
+      case 'E':
+      case 'I':
+      case 'O':
+      case 'U':
+      case 'Y':
+        // Only an initial vowel is coded, and always as A
+        if (index === 0) {
+          add('A');
+        }
+        index++;
+        break;
+
+      case 'B':
+        add('P');
+        index += next === 'B' ? 2 : 1;
+        break;
+
+      case 'C':
+        // Germanic -ACH- as in Bacher, Macher, but not Bach-i
+        if (
+          index > 1 &&
+          !isVowel(at(index - 2)) &&
+          startsWith(index - 1, 'ACH') &&
+          nextnext !== 'I' &&
+          (nextnext !== 'E' || startsWith(index - 2, 'BACHER', 'MACHER'))
+        ) {
+          add('K');
+          index += 2;
+          break;
+        }
+
+        if (index === 0 && startsWith(index, 'CAESAR')) {
+          add('S');
+          index += 2;
+          break;
+        }
+
+        // Italian, as in Chianti
+        if (startsWith(index, 'CHIA')) {
+          add('K');
+          index += 2;
+          break;
+        }
+
+        if (next === 'H') {
+          // Michael
+          if (index > 0 && startsWith(index, 'CHAE')) {
+            add('K', 'X');
+            index += 2;
+            break;
+          }
+
+          // Greek roots, as in Chloe, Christopher, Charis
+          if (
+            index === 0 &&
+            (startsWith(index + 1, 'HARAC', 'HARIS') || startsWith(index + 1, 'HOR', 'HYM', 'HIA', 'HEM')) &&
+            !startsWith(0, 'CHORE')
+          ) {
+            add('K');
+            index += 2;
+            break;
+          }
+
+          if (
+            germanic ||
+            startsWith(index - 2, 'ORCHES', 'ARCHIT', 'ORCHID') ||
+            nextnext === 'T' ||
+            nextnext === 'S' ||
+            ((index === 0 || ['A', 'O', 'U', 'E'].includes(previous)) &&
+              ['L', 'R', 'N', 'M', 'B', 'H', 'F', 'V', 'W', ' '].includes(nextnext))
+          ) {
+            add('K');
+          } else if (index === 0) {
+            add('X');
+          } else if (startsWith(0, 'MC')) {
+            add('K');
+          } else {
+            add('X', 'K');
+          }
+          index += 2;
+          break;
+        }
+
+        // Czerny
+        if (next === 'Z' && !startsWith(index - 2, 'WICZ')) {
+          add('S', 'X');
+          index += 2;
+          break;
+        }
+
+        // Focaccia
+        if (startsWith(index + 1, 'CIA')) {
+          add('X');
+          index += 3;
+          break;
+        }
+
+        // Double C, but not McClellan
+        if (next === 'C' && !(index === 1 && at(0) === 'M')) {
+          // Bellocchio, but not Bacchus
+          if (['I', 'E', 'H'].includes(nextnext) && !startsWith(index + 2, 'HU')) {
+            // Accident, Accede, Succeed
+            if ((index === 1 && previous === 'A') || startsWith(index - 1, 'UCCEE', 'UCCES')) {
+              add('KS');
+            } else {
+              add('X');
+            }
+            index += 3;
+            break;
+          }
+          // Pierce's rule
+          add('K');
+          index += 2;
+          break;
+        }
+
+        if (next === 'K' || next === 'G' || next === 'Q') {
+          add('K');
+          index += 2;
+          break;
+        }
+
+        // Italian, as in Ciotti
+        if (startsWith(index, 'CIO', 'CIE', 'CIA')) {
+          add('S', 'X');
+          index += 2;
+          break;
+        }
+
+        if (next === 'I' || next === 'E' || next === 'Y') {
+          add('S');
+          index += 2;
+          break;
+        }
+
+        add('K');
+        // Mac Caffrey, Mac Gregor
+        if (next === ' ' && ['C', 'Q', 'G'].includes(nextnext)) {
+          index += 3;
+        } else {
+          index++;
+        }
+        break;
+
+      case 'D':
+        if (next === 'G') {
+          // Edge
+          if (['I', 'E', 'Y'].includes(nextnext)) {
+            add('J');
+            index += 3;
+          } else {
+            // Edgar
+            add('TK');
+            index += 2;
+          }
+          break;
+        }
+        add('T');
+        index += next === 'T' || next === 'D' ? 2 : 1;
+        break;
+
+      case 'F':
+        add('F');
+        index += next === 'F' ? 2 : 1;
+        break;
+
+      case 'G':
+        if (next === 'H') {
+          if (index > 0 && !isVowel(previous)) {
+            add('K');
+            index += 2;
+            break;
+          }
+
+          // Ghislaine, Ghiradelli
+          if (index === 0) {
+            add(nextnext === 'I' ? 'J' : 'K');
+            index += 2;
+            break;
+          }
+
+          // Parker's rule: Hugh, Bough, Broughton
+          if (
+            ['B', 'H', 'D'].includes(at(index - 2)) ||
+            ['B', 'H', 'D'].includes(at(index - 3)) ||
+            ['B', 'H'].includes(at(index - 4))
+          ) {
+            index += 2;
+            break;
+          }
+
+          // Laugh, McLaughlin, Cough, Rough
+          if (index > 2 && previous === 'U' && ['C', 'G', 'L', 'R', 'T'].includes(at(index - 3))) {
+            add('F');
+          } else if (index > 0 && previous !== 'I') {
+            add('K');
+          }
+          index += 2;
+          break;
+        }
+
+        if (next === 'N') {
+          if (index === 1 && isVowel(at(0)) && !slavoGermanic) {
+            add('KN', 'N');
+          } else if (!startsWith(index + 2, 'EY') && !slavoGermanic) {
+            // Not Cagney
+            add('N', 'KN');
+          } else {
+            add('KN');
+          }
+          index += 2;
+          break;
+        }
+
+        // Tagliaro
+        if (startsWith(index + 1, 'LI') && !slavoGermanic) {
+          add('KL', 'L');
+          index += 2;
+          break;
+        }
+
+        // -GES-, -GEP-, -GEL-, -GIE- at the start
+        if (
+          index === 0 &&
+          (next === 'Y' || startsWith(index + 1, 'ES', 'EP', 'EB', 'EL', 'EY', 'IB', 'IL', 'IN', 'IE', 'EI', 'ER'))
+        ) {
+          add('K', 'J');
+          index += 2;
+          break;
+        }
+
+        // -GER-, -GY-
+        if (
+          (startsWith(index + 1, 'ER') || next === 'Y') &&
+          !startsWith(0, 'DANGER', 'RANGER', 'MANGER') &&
+          !['E', 'I'].includes(previous) &&
+          !startsWith(index - 1, 'RGY', 'OGY')
+        ) {
+          add('K', 'J');
+          index += 2;
+          break;
+        }
+
+        // Italian, as in Biaggi
+        if (['E', 'I', 'Y'].includes(next) || startsWith(index - 1, 'AGGI', 'OGGI')) {
+          if (germanic || startsWith(index + 1, 'ET')) {
+            add('K');
+          } else if (startsWith(index + 1, 'IER ')) {
+            // Always soft with a French ending
+            add('J');
+          } else {
+            add('J', 'K');
+          }
+          index += 2;
+          break;
+        }
+
+        add('K');
+        index += next === 'G' ? 2 : 1;
+        break;
+
+      case 'H':
+        // Only kept first or between vowels, and before a vowel
+        if ((index === 0 || isVowel(previous)) && isVowel(next)) {
+          add('H');
+          index += 2;
+        } else {
+          index++;
+        }
+        break;
+
+      case 'J':
+        // Spanish, as in Jose, San Jacinto
+        if (startsWith(index, 'JOSE') || startsWith(0, 'SAN ')) {
+          if ((index === 0 && at(index + 4) === ' ') || startsWith(0, 'SAN ')) {
+            add('H');
+          } else {
+            add('J', 'H');
+          }
+          index++;
+          break;
+        }
+
+        if (index === 0 && !startsWith(index, 'JOSE')) {
+          // Yankelovich / Jankelowicz
+          add('J', 'A');
+        } else if (isVowel(previous) && !slavoGermanic && (next === 'A' || next === 'O')) {
+          // Spanish, as in Bajador
+          add('J', 'H');
+        } else if (index === last) {
+          add('J', '');
+        } else if (
+          !['L', 'T', 'K', 'S', 'N', 'M', 'B', 'Z'].includes(next) &&
+          !['S', 'K', 'L'].includes(previous)
+        ) {
+          add('J');
+        }
+        index += next === 'J' ? 2 : 1;
+        break;
+
+      case 'K':
+        add('K');
+        index += next === 'K' ? 2 : 1;
+        break;
+
+      case 'L':
+        if (next === 'L') {
+          // Spanish, as in Cabrillo, Gallegos
+          if (
+            (index === length - 3 && startsWith(index - 1, 'ILLO', 'ILLA', 'ALLE')) ||
+            ((startsWith(last - 1, 'AS', 'OS') || ['A', 'O'].includes(at(last))) && startsWith(index - 1, 'ALLE'))
+          ) {
+            add('L', '');
+            index += 2;
+            break;
+          }
+          index += 2;
+        } else {
+          index++;
+        }
+        add('L');
+        break;
+
+      case 'M':
+        add('M');
+        // Dumb, Thumb
+        if ((startsWith(index - 1, 'UMB') && (index + 1 === last || startsWith(index + 2, 'ER'))) || next === 'M') {
+          index += 2;
+        } else {
+          index++;
+        }
+        break;
+
+      case 'N':
+        add('N');
+        index += next === 'N' ? 2 : 1;
+        break;
+
+      case 'P':
+        if (next === 'H') {
+          add('F');
+          index += 2;
+          break;
+        }
+        // Campbell, Raspberry
+        add('P');
+        index += next === 'P' || next === 'B' ? 2 : 1;
+        break;
+
+      case 'Q':
+        add('K');
+        index += next === 'Q' ? 2 : 1;
+        break;
+
+      case 'R':
+        // French, as in Rogier, but not Hochmeier
+        if (index === last && !slavoGermanic && startsWith(index - 2, 'IE') && !startsWith(index - 4, 'ME', 'MA')) {
+          add('', 'R');
+        } else {
+          add('R');
+        }
+        index += next === 'R' ? 2 : 1;
+        break;
+
+      case 'S':
+        // Island, Isle, Carlisle, Carlysle
+        if (startsWith(index - 1, 'ISL', 'YSL')) {
+          index++;
+          break;
+        }
+
+        // Sugar
+        if (index === 0 && startsWith(index, 'SUGAR')) {
+          add('X', 'S');
+          index++;
+          break;
+        }
+
+        if (next === 'H') {
+          // Germanic
+          if (startsWith(index + 1, 'HEIM', 'HOEK', 'HOLM', 'HOLZ')) {
+            add('S');
+          } else {
+            add('X');
+          }
+          index += 2;
+          break;
+        }
+
+        // Italian and Armenian
+        if (startsWith(index, 'SIO', 'SIA', 'SIAN')) {
+          add('S', slavoGermanic ? 'S' : 'X');
+          index += 3;
+          break;
+        }
+
+        // German and anglicised spellings, Smith matching Schmidt; also -SZ- in Slavic names
+        if ((index === 0 && ['M', 'N', 'L', 'W'].includes(next)) || next === 'Z') {
+          add('S', 'X');
+          index += next === 'Z' ? 2 : 1;
+          break;
+        }
+
+        if (next === 'C') {
+          // Schlesinger's rule
+          if (nextnext === 'H') {
+            // Dutch origin, as in School, Schooner
+            if (startsWith(index + 3, 'OO', 'ER', 'EN', 'UY', 'ED', 'EM')) {
+              // Schermerhorn, Schenker
+              if (startsWith(index + 3, 'ER', 'EN')) {
+                add('X', 'SK');
+              } else {
+                add('SK');
+              }
+            } else if (index === 0 && !isVowel(at(3)) && at(3) !== 'W') {
+              add('X', 'S');
+            } else {
+              add('X');
+            }
+            index += 3;
+            break;
+          }
+
+          if (['I', 'E', 'Y'].includes(nextnext)) {
+            add('S');
+            index += 3;
+            break;
+          }
+
+          add('SK');
+          index += 3;
+          break;
+        }
+
+        // French, as in Resnais, Artois
+        if (index === last && startsWith(index - 2, 'AI', 'OI')) {
+          add('', 'S');
+        } else {
+          add('S');
+        }
+        index += next === 'S' || next === 'Z' ? 2 : 1;
+        break;
+
+      case 'T':
+        if (startsWith(index, 'TION', 'TIA', 'TCH')) {
+          add('X');
+          index += 3;
+          break;
+        }
+
+        if (next === 'H' || startsWith(index, 'TTH')) {
+          // Thomas, Thames, or Germanic
+          if (startsWith(index + 2, 'OM', 'AM') || germanic) {
+            add('T');
+          } else {
+            add('0', 'T');
+          }
+          index += 2;
+          break;
+        }
+
+        add('T');
+        index += next === 'T' || next === 'D' ? 2 : 1;
+        break;
+
+      case 'V':
+        add('F');
+        index += next === 'V' ? 2 : 1;
+        break;
+
+      case 'W':
+        // Wright
+        if (next === 'R') {
+          add('R');
+          index += 2;
+          break;
+        }
+
+        if (index === 0) {
+          if (isVowel(next)) {
+            // Wasserman matches Vasserman
+            add('A', 'F');
+          } else if (next === 'H') {
+            // Uomo matches Womo
+            add('A');
+          }
+        }
+
+        // Arnow matches Arnoff
+        if (
+          (index === last && isVowel(previous)) ||
+          startsWith(index - 1, 'EWSKI', 'EWSKY', 'OWSKI', 'OWSKY') ||
+          startsWith(0, 'SCH')
+        ) {
+          add('', 'F');
+          index++;
+          break;
+        }
+
+        // Polish, as in Filipowicz
+        if (startsWith(index, 'WICZ', 'WITZ')) {
+          add('TS', 'FX');
+          index += 4;
+          break;
+        }
+
+        index++;
+        break;
+
+      case 'X':
+        // French, as in Breaux
+        if (!(index === last && (startsWith(index - 3, 'IAU', 'EAU') || startsWith(index - 2, 'AU', 'OU')))) {
+          add('KS');
+        }
+        index += next === 'C' || next === 'X' ? 2 : 1;
+        break;
+
+      case 'Z':
+        // Chinese pinyin, as in Zhao
+        if (next === 'H') {
+          add('J');
+          index += 2;
+          break;
+        }
+        if (startsWith(index + 1, 'ZO', 'ZI', 'ZA') || (slavoGermanic && index > 0 && previous !== 'T')) {
+          add('S', 'TS');
+        } else {
+          add('S');
+        }
+        index += next === 'Z' ? 2 : 1;
+        break;
+
+      default:
+        index++;
+    }
+  }
+
+  return { primary: primary.slice(0, maxLength), alternate: alternate.slice(0, maxLength) };
+}
@@ -0,0 +1,136 @@
+// src/services/search/NameSearchService.ts
+
+import { Op, WhereOptions, col, fn } from 'sequelize';
+import BabyName from '../../models/BabyNameModel';
+import { caseInsensitiveLike } from '../../database/Dialect';
+import type { Sex } from '../BabyNameQueryService';
+import { PhoneticKeys, asciiLetters, phoneticKeys } from './Phonetics';
+import { jaroWinkler, levenshtein } from './StringDistance';
+
+export type MatchKind = 'exact' | 'prefix' | 'metaphone' | 'soundex';
+
+export interface NameVariant {
+  name: string;
+  count: number;            // Births over all years (and the requested sex)
+  score: number;            // 0-1, see NameSearchService.score()
+  distance: number;         // Levenshtein distance from the query, ignoring case and accents
+  matchedBy: MatchKind[];
+}
+
+/** Spellings sharing a primary Double Metaphone code, e.g. Kaitlyn, Caitlin and Katelyn under KTLN. */
+export interface SpellingCluster {
+  key: string;
+  count: number;
+  variants: NameVariant[];
+}
+
+export interface FuzzySearchResult {
+  query: string;
+  keys: PhoneticKeys;
+  clusters: SpellingCluster[];
+}
+
+export interface FuzzySearchOptions {
+  sex?: Sex;
+  limit?: number;           // Variants over all clusters (default 20)
+  minScore?: number;        // Drop weaker matches (default 0.5)
+}
+
+interface Candidate extends PhoneticKeys {
+  name: string;
+  count: number;
+}
+
+// Most popular candidates scored per query; phonetic keys are coarse, so common ones match thousands of names
+const MAX_CANDIDATES = 500;
+
+const WEIGHTS = { jaroWinkler: 0.4, edit: 0.25, phonetic: 0.25, prefix: 0.1 };
+
+/**
+ * Finds spelling variants of a name. Candidates come from the indexed
+ * phonetic keys (Soundex and both Double Metaphone codes) plus a prefix
+ * match, and are ranked by string similarity to the query.
+ */
+export class NameSearchService {
+  async search(query: string, options: FuzzySearchOptions = {}): Promise<FuzzySearchResult> {
+    const limit = options.limit ?? 20;
+    const minScore = options.minScore ?? 0.5;
+    const keys = phoneticKeys(query);
+    const target = asciiLetters(query);
+
+    const candidates = await this.candidates(query, keys, options.sex);
+    const variants = candidates
+      .map(candidate => this.score(target, keys, candidate))
+      .filter(({ variant }) => variant.score >= minScore)
+      .sort((a, b) => b.variant.score - a.variant.score || b.variant.count - a.variant.count)
+      .slice(0, limit);
+
+    const clusters = new Map<string, SpellingCluster>();
+    for (const { variant, key } of variants) {
+      const cluster = clusters.get(key) ?? { key, count: 0, variants: [] };
+      cluster.count += variant.count;
+      cluster.variants.push(variant);
+      clusters.set(key, cluster);
+    }
+
+    // Insertion order follows each cluster's best variant
+    return { query, keys, clusters: [...clusters.values()] };
+  }
+
+  private async candidates(query: string, keys: PhoneticKeys, sex?: Sex): Promise<Candidate[]> {
+    const codes = [...new Set([keys.metaphone, keys.metaphoneAlt].filter(code => code !== ''))];
+    const matches: WhereOptions[] = [{ name: { [caseInsensitiveLike()]: `${query}%` } }];
+    if (keys.soundex !== '') matches.push({ soundex: keys.soundex });
+    if (codes.length > 0) matches.push({ metaphone: codes }, { metaphoneAlt: codes });
+
+    const rows = await BabyName.findAll({
+      attributes: ['name', 'soundex', 'metaphone', 'metaphoneAlt', [fn('SUM', col('count')), 'count']],
+      where: { [Op.and]: [{ [Op.or]: matches }, ...(sex ? [{ sex }] : [])] },
+      group: ['name', 'soundex', 'metaphone', 'metaphoneAlt'],
+      order: [[fn('SUM', col('count')), 'DESC'], ['name', 'ASC']],
+      limit: MAX_CANDIDATES,
+      raw: true,
+      logging: false,
+    }) as any[];
+
+    return rows.map(row => ({ ...row, count: Number(row.count ?? 0) }));
+  }
+
+  /**
+   * Weighted blend of Jaro-Winkler and normalised edit distance (compared
+   * without case or accents), how closely the phonetic keys agree, and
+   * whether the candidate starts with the query.
+   */
+  private score(target: string, keys: PhoneticKeys, candidate: Candidate): { variant: NameVariant; key: string } {
+    const letters = asciiLetters(candidate.name);
+    const distance = levenshtein(target, letters);
+    const matchedBy: MatchKind[] = [];
+
+    if (letters === target) matchedBy.push('exact');
+    if (letters.startsWith(target)) matchedBy.push('prefix');
+
+    let phonetic = 0;
+    if (candidate.metaphone === keys.metaphone) {
+      phonetic = 1;
+    } else if ([candidate.metaphone, candidate.metaphoneAlt].some(code => code === keys.metaphone || code === keys.metaphoneAlt)) {
+      phonetic = 0.8;
+    }
+    if (phonetic > 0) matchedBy.push('metaphone');
+    if (candidate.soundex === keys.soundex) {
+      matchedBy.push('soundex');
+      phonetic = Math.max(phonetic, 0.6);
+    }
+
+    const score = letters === target
+      ? 1
+      : WEIGHTS.jaroWinkler * jaroWinkler(target, letters) +
+        WEIGHTS.edit * (1 - distance / Math.max(target.length, letters.length, 1)) +
+        WEIGHTS.phonetic * phonetic +
+        WEIGHTS.prefix * (matchedBy.includes('prefix') ? 1 : 0);
+
+    return {
+      variant: { name: candidate.name, count: candidate.count, score: Math.round(score * 1000) / 1000, distance, matchedBy },
+      key: candidate.metaphone ?? '',
+    };
+  }
+}
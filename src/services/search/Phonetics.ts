@@ -0,0 +1,64 @@
+// src/services/search/Phonetics.ts
+
+import { doubleMetaphone } from './DoubleMetaphone';
+
+/** Indexed on BabyNames (migration 009); filled by the importer. */
+export interface PhoneticKeys {
+  soundex: string;          // e.g. K345 for Kaitlyn, Katelyn; C345 for Caitlin
+  metaphone: string;        // Double Metaphone primary code, e.g. KTLN for all three
+  metaphoneAlt: string;     // Alternate code; equal to `metaphone` for most names
+}
+
+const SOUNDEX_DIGITS: Record<string, string> = {
+  B: '1', F: '1', P: '1', V: '1',
+  C: '2', G: '2', J: '2', K: '2', Q: '2', S: '2', X: '2', Z: '2',
+  D: '3', T: '3',
+  L: '4',
+  M: '5', N: '5',
+  R: '6',
+};
+
+/** Upper-case A-Z and single spaces: accents folded, other punctuation dropped ("Zoë-Ann" → "ZOEANN"). */
+export function asciiLetters(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toUpperCase()
+    .replace(/[^A-Z ]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * American Soundex: the first letter plus three digits for the following
+ * consonant sounds. H and W don't separate letters with the same digit;
+ * vowels do.
+ */
+export function soundex(name: string): string {
+  const letters = asciiLetters(name).replace(/ /g, '');
+  if (letters.length === 0) {
+    return '';
+  }
+
+  let code = letters[0];
+  let previous = SOUNDEX_DIGITS[letters[0]] ?? '';
+  for (const letter of letters.slice(1)) {
+    if (letter === 'H' || letter === 'W') {
+      continue;
+    }
+    const digit = SOUNDEX_DIGITS[letter] ?? '';
+    if (digit !== '' && digit !== previous) {
+      code += digit;
+      if (code.length === 4) {
+        break;
+      }
+    }
+    previous = digit;
+  }
+  return code.padEnd(4, '0');
+}
+
+export function phoneticKeys(name: string): PhoneticKeys {
+  const { primary, alternate } = doubleMetaphone(asciiLetters(name));
+  return { soundex: soundex(name), metaphone: primary, metaphoneAlt: alternate };
+}
@@ -0,0 +1,17 @@
+// src/services/sources/DataSource.ts
+
+export interface FetchOptions {
+  force?: boolean;       // Fetch again even if the files are already local
+  ifChanged?: boolean;   // Fetch only when the upstream content differs
+}
+
+/** Somewhere the pipeline gets baby name files from. */
+export interface DataSource {
+  readonly name: string;
+
+  /** Makes the source's files available locally and returns their paths. */
+  fetch(options?: FetchOptions): Promise<string[]>;
+
+  /** Local files the importer should read, without fetching anything. */
+  localFiles(): string[];
+}
@@ -0,0 +1,28 @@
+// src/services/sources/DataSourceFactory.ts
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { envConfig } from '../../config/EnvConfig';
+import { DataSource } from './DataSource';
+import { KaggleDataSource } from './KaggleDataSource';
+import { LocalFileDataSource } from './LocalFileDataSource';
+import { HttpDataSource } from './HttpDataSource';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export type DataSourceType = 'kaggle' | 'local' | 'http';
+
+/** Builds the data source selected by DATA_SOURCE. */
+export function createDataSource(type: DataSourceType = envConfig.source.type): DataSource {
+  const downloadDir = path.resolve(__dirname, '../../../', envConfig.app.downloadDir);
+
+  switch (type) {
+    case 'local':
+      return new LocalFileDataSource(envConfig.source.paths);
+    case 'http':
+      return new HttpDataSource(envConfig.source.urls, downloadDir);
+    default:
+      return new KaggleDataSource(downloadDir);
+  }
+}
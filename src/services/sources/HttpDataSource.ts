@@ -0,0 +1,93 @@
+// src/services/sources/HttpDataSource.ts
+
+import axios from 'axios';
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { logger } from '../../utils/Logger';
+import { AppError } from '../../utils/ErrorHandler';
+import { sha256File } from '../../utils/Checksum';
+import { DataSource, FetchOptions } from './DataSource';
+
+/**
+ * Plain HTTP(S) downloads, e.g. the SSA names.zip. Each URL is saved under
+ * <downloadDir>/http/ by its file name and reused until --force or
+ * --if-changed asks for a fresh copy.
+ */
+export class HttpDataSource implements DataSource {
+  readonly name = 'http';
+  private targetDir: string;
+
+  constructor(private urls: string[], downloadDir: string) {
+    if (urls.length === 0) {
+      throw new AppError('MISSING_CONFIG', 400, 'HTTP data source needs at least one URL (DATA_SOURCE_URLS)');
+    }
+    this.targetDir = path.join(downloadDir, 'http');
+  }
+
+  private targetPath(url: string): string {
+    const fileName = path.basename(new URL(url).pathname);
+    if (!fileName) {
+      throw new AppError('INVALID_CONFIG', 400, `Cannot derive a file name from ${url}`);
+    }
+    return path.join(this.targetDir, fileName);
+  }
+
+  private async downloadOne(url: string, options: FetchOptions): Promise<string> {
+    const filePath = this.targetPath(url);
+    const exists = fs.existsSync(filePath);
+
+    if (exists && !options.force && !options.ifChanged) {
+      logger.warn(`${path.basename(filePath)} already downloaded. Skipping download.`);
+      return filePath;
+    }
+
+    logger.info(`Downloading ${url}...`);
+    const response = await axios.get(url, { responseType: 'stream', maxRedirects: 5, timeout: 60000 });
+
+    // Write to a .part file so an interrupted download is never mistaken for a complete one
+    const partPath = `${filePath}.part`;
+    try {
+      await pipeline(response.data, fs.createWriteStream(partPath));
+    } catch (error) {
+      fs.rmSync(partPath, { force: true });
+      throw error;
+    }
+
+    if (exists && options.ifChanged && !options.force) {
+      const [before, after] = await Promise.all([sha256File(filePath), sha256File(partPath)]);
+      if (before === after) {
+        fs.rmSync(partPath, { force: true });
+        logger.info(`${path.basename(filePath)} is unchanged (sha256 ${before.slice(0, 12)}…). Keeping it.`);
+        return filePath;
+      }
+    }
+
+    fs.renameSync(partPath, filePath);
+    logger.success(`File downloaded: ${filePath}`);
+    return filePath;
+  }
+
+  async fetch(options: FetchOptions = {}): Promise<string[]> {
+    fs.mkdirSync(this.targetDir, { recursive: true });
+
+    const files: string[] = [];
+    for (const url of this.urls) {
+      files.push(await this.downloadOne(url, options));
+    }
+    return files;
+  }
+
+  localFiles(): string[] {
+    const files = this.urls.map(url => this.targetPath(url));
+    const missing = files.filter(f => !fs.existsSync(f));
+    if (missing.length > 0) {
+      throw new AppError(
+        'FILE_NOT_FOUND',
+        404,
+        `Not downloaded yet: ${missing.map(f => path.basename(f)).join(', ')} (run the download stage first)`
+      );
+    }
+    return files;
+  }
+}
@@ -0,0 +1,48 @@
+// src/services/sources/KaggleDataSource.ts
+
+import fs from 'fs';
+import path from 'path';
+import { AppError } from '../../utils/ErrorHandler';
+import { KaggleDownloaderService } from '../KaggleDownloaderService';
+import { DatasetManifest } from '../DatasetManifest';
+import { isImportable } from '../formats/InputEntries';
+import { DataSource, FetchOptions } from './DataSource';
+
+/** The Kaggle dataset, versioned in the download directory's manifest. */
+export class KaggleDataSource implements DataSource {
+  readonly name = 'kaggle';
+
+  constructor(
+    private downloadDir: string,
+    private downloader?: KaggleDownloaderService
+  ) {}
+
+  async fetch(options: FetchOptions = {}): Promise<string[]> {
+    const downloader = this.downloader ?? new KaggleDownloaderService();
+    return [await downloader.download(options)];
+  }
+
+  localFiles(): string[] {
+    // Prefer the version the downloader marked current
+    const manifest = new DatasetManifest(this.downloadDir);
+    const current = manifest.current();
+    if (current) {
+      return [manifest.absolutePath(current)];
+    }
+
+    // Downloads that predate the manifest: every archive or data file, in a stable order.
+    // A CSV that also sits inside a ZIP is imported once, since entries are tracked by checksum.
+    const files = (fs.existsSync(this.downloadDir) ? fs.readdirSync(this.downloadDir) : [])
+      .filter(f => /\.(zip|gz)$/i.test(f) || isImportable(f))
+      .sort();
+    if (files.length > 0) {
+      return files.map(f => path.join(this.downloadDir, f));
+    }
+
+    throw new AppError(
+      'FILE_NOT_FOUND',
+      404,
+      `No CSV or ZIP file found in ${this.downloadDir}`
+    );
+  }
+}
@@ -0,0 +1,35 @@
+// src/services/sources/LocalFileDataSource.ts
+
+import { logger } from '../../utils/Logger';
+import { AppError } from '../../utils/ErrorHandler';
+import { expandGlob } from '../../utils/Glob';
+import { DataSource } from './DataSource';
+
+/** Files already on disk, given as paths or globs such as `data/yob*.txt`. */
+export class LocalFileDataSource implements DataSource {
+  readonly name = 'local';
+
+  constructor(private patterns: string[]) {
+    if (patterns.length === 0) {
+      throw new AppError('MISSING_CONFIG', 400, 'Local data source needs at least one path (DATA_SOURCE_PATHS)');
+    }
+  }
+
+  async fetch(): Promise<string[]> {
+    const files = this.localFiles();
+    logger.info(`Local data source matched ${files.length} file(s)`);
+    return files;
+  }
+
+  localFiles(): string[] {
+    const files = [...new Set(this.patterns.flatMap(pattern => expandGlob(pattern)))];
+    if (files.length === 0) {
+      throw new AppError(
+        'FILE_NOT_FOUND',
+        404,
+        `No files match ${this.patterns.join(', ')}`
+      );
+    }
+    return files;
+  }
+}
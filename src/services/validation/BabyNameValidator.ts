@@ -0,0 +1,78 @@
+// src/services/validation/BabyNameValidator.ts
+
+import { BabyNameValidationSchema, defaultValidationSchema } from '../../config/ValidationConfig';
+import { BabyNameRow, RawBabyNameRow } from '../formats/RowFormat';
+
+export type ValidationResult =
+  | { ok: true; row: BabyNameRow }
+  | { ok: false; reason: string };
+
+const INTEGER = /^[+-]?\d+$/;
+
+/**
+ * Single-case input ("MARY", "mary-jo") is title-cased; mixed case
+ * ("McKenzie") is kept as given.
+ */
+const normaliseCase = (name: string): string => {
+  if (name !== name.toUpperCase() && name !== name.toLowerCase()) {
+    return name;
+  }
+  return name.toLowerCase().replace(/(^|[\s-])(\p{L})/gu, (_m, sep: string, letter: string) => sep + letter.toUpperCase());
+};
+
+/** Checks and normalises raw rows against a BabyNameValidationSchema. */
+export class BabyNameValidator {
+  constructor(private schema: BabyNameValidationSchema = defaultValidationSchema) {}
+
+  validate(raw: RawBabyNameRow): ValidationResult {
+    const { schema } = this;
+
+    const name = normaliseCase((raw.name ?? '').normalize('NFC').trim().replace(/\s+/g, ' '));
+    if (!name) {
+      return { ok: false, reason: 'missing name' };
+    }
+    if (name.length < schema.name.minLength || name.length > schema.name.maxLength) {
+      return { ok: false, reason: `name length not between ${schema.name.minLength} and ${schema.name.maxLength}` };
+    }
+    if (!schema.name.pattern.test(name)) {
+      return { ok: false, reason: 'name has invalid characters' };
+    }
+
+    const sexInput = (raw.sex ?? '').trim().toUpperCase();
+    if (!sexInput) {
+      return { ok: false, reason: 'missing sex' };
+    }
+    const sex = schema.sexCodes[sexInput];
+    if (!sex) {
+      return { ok: false, reason: `unknown sex code "${raw.sex?.trim()}"` };
+    }
+
+    let year: number | null = null;
+    const yearInput = (raw.year ?? '').trim();
+    if (yearInput) {
+      if (!INTEGER.test(yearInput)) {
+        return { ok: false, reason: 'year is not an integer' };
+      }
+      year = parseInt(yearInput, 10);
+      if (year < schema.year.min || year > schema.year.max) {
+        return { ok: false, reason: `year outside ${schema.year.min}-${schema.year.max}` };
+      }
+    } else if (schema.year.required) {
+      return { ok: false, reason: 'missing year' };
+    }
+
+    let count = 0;
+    const countInput = (raw.count ?? '').trim();
+    if (countInput) {
+      if (!INTEGER.test(countInput)) {
+        return { ok: false, reason: 'count is not an integer' };
+      }
+      count = parseInt(countInput, 10);
+      if (count < schema.count.min) {
+        return { ok: false, reason: `count below ${schema.count.min}` };
+      }
+    }
+
+    return { ok: true, row: { name, sex, year, count } };
+  }
+}
@@ -0,0 +1,88 @@
+// src/services/validation/ImportStats.ts
+
+import { logger } from '../../utils/Logger';
+
+/** Groups "unknown sex code "X"" and friends under their general reason. */
+export const rejectReasonKey = (reason: string): string => reason.replace(/ "[^"]*"$/, '');
+
+/** Row counts for one imported entry, or for a whole run via add(). */
+export class ImportStats {
+  rows = 0;
+  accepted = 0;
+  rejected = 0;
+  inserted = 0;
+  updated = 0;
+  unchanged = 0;
+  duplicates = 0;        // Repeats of a key earlier in the same batch; the last one wins
+  bytes = 0;             // Uncompressed bytes read
+  readonly reasons = new Map<string, number>();
+  private startedAt = Date.now();
+  private elapsedMs = 0;  // Accumulated by add(); own time is measured from startedAt
+
+  /** Counters as committed by an earlier run (see ImportRunTracker); reject reasons aren't kept. */
+  static fromCheckpoint(checkpoint: {
+    rowOffset: number;
+    byteOffset: number;
+    accepted: number;
+    rejected: number;
+    inserted: number;
+    updated: number;
+    unchanged: number;
+  }): ImportStats {
+    const stats = new ImportStats();
+    stats.rows = checkpoint.rowOffset;
+    stats.bytes = Number(checkpoint.byteOffset);
+    stats.accepted = checkpoint.accepted;
+    stats.rejected = checkpoint.rejected;
+    stats.inserted = checkpoint.inserted;
+    stats.updated = checkpoint.updated;
+    stats.unchanged = checkpoint.unchanged;
+    return stats;
+  }
+
+  reject(reason: string): void {
+    this.rejected++;
+    const key = rejectReasonKey(reason);
+    this.reasons.set(key, (this.reasons.get(key) ?? 0) + 1);
+  }
+
+  get durationMs(): number {
+    return this.elapsedMs || Date.now() - this.startedAt;
+  }
+
+  get rowsPerSecond(): number {
+    return this.durationMs === 0 ? 0 : Math.round(this.rows / (this.durationMs / 1000));
+  }
+
+  get rejectRate(): number {
+    return this.rows === 0 ? 0 : this.rejected / this.rows;
+  }
+
+  add(other: ImportStats): void {
+    this.rows += other.rows;
+    this.accepted += other.accepted;
+    this.rejected += other.rejected;
+    this.inserted += other.inserted;
+    this.updated += other.updated;
+    this.unchanged += other.unchanged;
+    this.duplicates += other.duplicates;
+    this.bytes += other.bytes;
+    this.elapsedMs += other.durationMs;
+    for (const [reason, count] of other.reasons) {
+      this.reasons.set(reason, (this.reasons.get(reason) ?? 0) + count);
+    }
+  }
+
+  log(title: string): void {
+    logger.info(
+      `${title}: ${this.rows} rows, ${this.accepted} accepted, ${this.rejected} rejected ` +
+      `(${(this.rejectRate * 100).toFixed(2)}%); ${this.inserted} inserted, ${this.updated} updated, ` +
+      `${this.unchanged} unchanged${this.duplicates > 0 ? `, ${this.duplicates} repeated keys` : ''} ` +
+      `in ${(this.durationMs / 1000).toFixed(1)}s (${this.rowsPerSecond} rows/s)`
+    );
+    const reasons = [...this.reasons.entries()].sort((a, b) => b[1] - a[1]);
+    for (const [reason, count] of reasons) {
+      logger.info(`  ${reason}: ${count}`);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+// src/services/validation/RejectsWriter.ts
+
+import fs from 'fs';
+import path from 'path';
+import { RawBabyNameRow } from '../formats/RowFormat';
+
+export interface RejectedRow {
+  source: string;        // Entry label, e.g. "names.zip:yob1999.txt"
+  line: number;          // 1-based line in the source file, counting the header
+  reason: string;
+  raw: RawBabyNameRow;
+}
+
+const COLUMNS = ['source', 'line', 'reason', 'name', 'sex', 'year', 'count'];
+
+const escape = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Appends rejected rows to a CSV report. The file is replaced on the first
+ * reject of a run (or appended to, when resuming) and not created at all
+ * when nothing is rejected.
+ */
+export class RejectsWriter {
+  private stream: fs.WriteStream | null = null;
+  private written = 0;
+
+  constructor(readonly filePath: string, private append: boolean = false) {}
+
+  get count(): number {
+    return this.written;
+  }
+
+  write(reject: RejectedRow): void {
+    if (!this.stream) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const continuing = this.append && fs.existsSync(this.filePath) && fs.statSync(this.filePath).size > 0;
+      this.stream = fs.createWriteStream(this.filePath, { flags: continuing ? 'a' : 'w' });
+      if (!continuing) {
+        this.stream.write(`${COLUMNS.join(',')}\n`);
+      }
+    }
+
+    const { raw } = reject;
+    const fields = [reject.source, reject.line, reject.reason, raw.name, raw.sex, raw.year, raw.count];
+    this.stream.write(`${fields.map(escape).join(',')}\n`);
+    this.written++;
+  }
+
+  async close(): Promise<void> {
+    if (!this.stream) {
+      return;
+    }
+    const stream = this.stream;
+    this.stream = null;
+    await new Promise<void>((resolve, reject) => stream.end((err?: Error | null) => (err ? reject(err) : resolve())));
+  }
+}
@@ -0,0 +1,390 @@
+// src/testing/HubSpotMockServer.ts
+//
+// In-memory stand-in for the parts of the HubSpot CRM v3 API the pipeline uses:
+// batch upsert, search, read, properties and schemas. Lets the sync run against
+// localhost with no portal or token.
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { logger } from '../utils/Logger';
+
+export interface MockFault {
+  status: number;             // e.g. 429, 500, 502, 503
+  remaining: number;          // Number of upcoming requests to fail
+  retryAfterSeconds?: number; // Sent as Retry-After on 429s
+  path?: string;              // Only fail requests whose path contains this
+  inputId?: string;           // Only fail batch requests with an input of this id, like HubSpot rejecting one record
+}
+
+export interface HubSpotMockServerOptions {
+  accessToken?: string;       // Bearer token to accept (default "mock-token")
+  failureRate?: number;       // 0..1 chance of a random 5xx on any request
+  rateLimitPerWindow?: number;// Requests per window before 429 (default: unlimited)
+  rateLimitWindowMs?: number;
+}
+
+interface StoredObject {
+  id: string;
+  properties: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const DEFAULT_CONTACT_PROPERTIES = [
+  'email', 'firstname', 'lastname', 'phone', 'company', 'hs_lead_status', 'lifecyclestage',
+];
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public category: string = 'VALIDATION_ERROR') {
+    super(message);
+  }
+}
+
+export class HubSpotMockServer {
+  private server: http.Server;
+  private accessToken: string;
+  private failureRate: number;
+  private rateLimitPerWindow: number;
+  private rateLimitWindowMs: number;
+  private windowStart = Date.now();
+  private windowCount = 0;
+  private nextId = 1;
+  private faults: MockFault[] = [];
+
+  /** objectType → id → object */
+  readonly objects = new Map<string, Map<string, StoredObject>>();
+  /** objectType → property definitions */
+  readonly properties = new Map<string, Map<string, any>>();
+  readonly schemas: any[] = [];
+  readonly requestLog: { method: string; path: string; status: number }[] = [];
+
+  constructor(options: HubSpotMockServerOptions = {}) {
+    this.accessToken = options.accessToken ?? 'mock-token';
+    this.failureRate = options.failureRate ?? 0;
+    this.rateLimitPerWindow = options.rateLimitPerWindow ?? Infinity;
+    this.rateLimitWindowMs = options.rateLimitWindowMs ?? 10000;
+    this.reset();
+
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.send(res, 500, { status: 'error', message: error.message, category: 'INTERNAL_ERROR' });
+      });
+    });
+  }
+
+  async start(port: number = 0): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(port, '127.0.0.1', resolve));
+    const { port: actual } = this.server.address() as AddressInfo;
+    const baseURL = `http://127.0.0.1:${actual}`;
+    logger.info(`HubSpot mock server listening on ${baseURL}`);
+    return baseURL;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) => this.server.close(err => (err ? reject(err) : resolve())));
+  }
+
+  /** Clears all objects, schemas, faults and the request log. */
+  reset(): void {
+    this.objects.clear();
+    this.properties.clear();
+    this.schemas.length = 0;
+    this.faults = [];
+    this.requestLog.length = 0;
+    this.nextId = 1;
+
+    this.properties.set('contacts', new Map(
+      DEFAULT_CONTACT_PROPERTIES.map(name => [name, { name, label: name, type: 'string', fieldType: 'text' }])
+    ));
+  }
+
+  /** Makes the next `count` matching requests fail with `status`. */
+  injectFault(status: number, count: number = 1, options: Omit<MockFault, 'status' | 'remaining'> = {}): void {
+    this.faults.push({ status, remaining: count, ...options });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+    const body = await this.readBody(req);
+
+    const respond = (status: number, payload: unknown, headers: Record<string, string> = {}) => {
+      this.requestLog.push({ method, path: url.pathname, status });
+      this.send(res, status, payload, headers);
+    };
+
+    // Control endpoints, not part of the HubSpot API
+    if (url.pathname === '/__mock/faults' && method === 'POST') {
+      this.injectFault(body.status, body.count ?? 1, {
+        retryAfterSeconds: body.retryAfterSeconds,
+        path: body.path,
+        inputId: body.inputId,
+      });
+      return respond(204, null);
+    }
+    if (url.pathname === '/__mock/reset' && method === 'POST') {
+      this.reset();
+      return respond(204, null);
+    }
+
+    if (req.headers.authorization !== `Bearer ${this.accessToken}`) {
+      return respond(401, {
+        status: 'error',
+        message: 'Authentication credentials not found.',
+        category: 'INVALID_AUTHENTICATION',
+      });
+    }
+
+    const fault = this.takeFault(url.pathname, body);
+    if (fault) {
+      const headers: Record<string, string> = fault.status === 429 && fault.retryAfterSeconds !== undefined
+        ? { 'Retry-After': String(fault.retryAfterSeconds) }
+        : {};
+      return respond(fault.status, { status: 'error', message: `Injected ${fault.status}`, category: 'INJECTED_FAULT' }, headers);
+    }
+
+    const rateHeaders = this.rateLimit();
+    if (!rateHeaders) {
+      return respond(429, {
+        status: 'error',
+        message: 'You have reached your ten_secondly_rolling limit.',
+        category: 'RATE_LIMITS',
+      }, { 'Retry-After': String(Math.ceil(this.rateLimitWindowMs / 1000)) });
+    }
+
+    try {
+      const [status, payload] = this.route(method, url, body);
+      respond(status, payload, rateHeaders);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return respond(error.status, { status: 'error', message: error.message, category: error.category }, rateHeaders);
+      }
+      throw error;
+    }
+  }
+
+  private route(method: string, url: URL, body: any): [number, unknown] {
+    const parts = url.pathname.split('/').filter(Boolean); // crm, v3, ...
+    if (parts[0] !== 'crm' || parts[1] !== 'v3') {
+      throw new HttpError(404, `No route for ${method} ${url.pathname}`, 'OBJECT_NOT_FOUND');
+    }
+    const [, , resource, objectType, action, subAction] = parts;
+
+    if (resource === 'schemas') {
+      if (method === 'GET' && !objectType) return [200, { results: this.schemas }];
+      if (method === 'POST' && !objectType) return [201, this.createSchema(body)];
+    }
+
+    if (resource === 'properties' && objectType) {
+      const props = this.propertiesFor(objectType);
+      if (method === 'GET') return [200, { results: [...props.values()] }];
+      if (method === 'POST') {
+        if (!body?.name || !body?.type || !body?.fieldType || !body?.groupName) {
+          throw new HttpError(400, 'Property requires name, type, fieldType and groupName');
+        }
+        if (props.has(body.name)) {
+          throw new HttpError(409, `Property ${body.name} already exists`, 'CONFLICT');
+        }
+        props.set(body.name, body);
+        return [201, body];
+      }
+    }
+
+    if (resource === 'objects' && objectType) {
+      this.propertiesFor(objectType);
+      const store = this.storeFor(objectType);
+
+      if (method === 'POST' && action === 'batch' && subAction === 'upsert') return [200, this.batchUpsert(objectType, body)];
+      if (method === 'POST' && action === 'search') return [200, this.search(store, body)];
+      if (method === 'GET' && !action) {
+        const limit = Math.min(parseInt(url.searchParams.get('limit') ?? '10', 10), 100);
+        const after = parseInt(url.searchParams.get('after') ?? '0', 10);
+        const all = [...store.values()];
+        const page = all.slice(after, after + limit);
+        return [200, {
+          results: page,
+          ...(after + limit < all.length ? { paging: { next: { after: String(after + limit) } } } : {}),
+        }];
+      }
+      if (method === 'GET' && action) {
+        const found = store.get(action);
+        if (!found) throw new HttpError(404, `Object ${action} not found`, 'OBJECT_NOT_FOUND');
+        return [200, found];
+      }
+    }
+
+    throw new HttpError(404, `No route for ${method} ${url.pathname}`, 'OBJECT_NOT_FOUND');
+  }
+
+  private batchUpsert(objectType: string, body: any): unknown {
+    const inputs: any[] = body?.inputs ?? [];
+    if (inputs.length === 0 || inputs.length > 100) {
+      throw new HttpError(400, `Batch must contain between 1 and 100 inputs (got ${inputs.length})`);
+    }
+
+    const ids = inputs.map(input => String(input.id).toLowerCase());
+    if (new Set(ids).size !== ids.length) {
+      throw new HttpError(400, 'Duplicate IDs found in batch input');
+    }
+
+    // Validate everything first: HubSpot rejects the whole batch on any invalid input
+    const known = this.propertiesFor(objectType);
+    for (const input of inputs) {
+      if (!input.idProperty || input.id === undefined) {
+        throw new HttpError(400, 'Each input requires idProperty and id');
+      }
+      const unknown = Object.keys(input.properties ?? {}).filter(name => !known.has(name));
+      if (unknown.length > 0) {
+        throw new HttpError(400, `Property values were not valid: unknown properties ${unknown.join(', ')} (id ${input.id})`);
+      }
+    }
+
+    const store = this.storeFor(objectType);
+    const now = new Date().toISOString();
+    const results = inputs.map(input => {
+      const key = String(input.id).toLowerCase();
+      const existing = [...store.values()].find(o => String(o.properties[input.idProperty]).toLowerCase() === key);
+
+      if (existing) {
+        existing.properties = { ...existing.properties, ...input.properties, [input.idProperty]: key };
+        existing.updatedAt = now;
+        return { ...existing, new: false };
+      }
+
+      const created: StoredObject = {
+        id: String(this.nextId++),
+        properties: { ...input.properties, [input.idProperty]: key },
+        createdAt: now,
+        updatedAt: now,
+      };
+      store.set(created.id, created);
+      return { ...created, new: true };
+    });
+
+    return { status: 'COMPLETE', results, startedAt: now, completedAt: now };
+  }
+
+  private search(store: Map<string, StoredObject>, body: any): unknown {
+    const groups: any[] = body?.filterGroups ?? [];
+    const matches = (obj: StoredObject, filter: any) => {
+      const value = obj.properties[filter.propertyName];
+      switch (filter.operator) {
+        case 'EQ': return String(value).toLowerCase() === String(filter.value).toLowerCase();
+        case 'NEQ': return String(value).toLowerCase() !== String(filter.value).toLowerCase();
+        case 'CONTAINS_TOKEN': return String(value ?? '').toLowerCase().includes(String(filter.value).toLowerCase().replace(/\*/g, ''));
+        case 'HAS_PROPERTY': return value !== undefined && value !== null;
+        case 'GT': return Number(value) > Number(filter.value);
+        case 'LT': return Number(value) < Number(filter.value);
+        default: throw new HttpError(400, `Unsupported operator ${filter.operator}`);
+      }
+    };
+
+    const results = [...store.values()].filter(obj =>
+      groups.length === 0 || groups.some(group => (group.filters ?? []).every((f: any) => matches(obj, f)))
+    );
+
+    const limit = Math.min(body?.limit ?? 10, 200);
+    const after = parseInt(body?.after ?? '0', 10);
+    return {
+      total: results.length,
+      results: results.slice(after, after + limit),
+      ...(after + limit < results.length ? { paging: { next: { after: String(after + limit) } } } : {}),
+    };
+  }
+
+  private createSchema(body: any): unknown {
+    if (!body?.name || !body?.labels || !Array.isArray(body?.properties)) {
+      throw new HttpError(400, 'Schema requires name, labels and properties');
+    }
+    if (this.schemas.some(s => s.name === body.name)) {
+      throw new HttpError(409, `Schema ${body.name} already exists`, 'CONFLICT');
+    }
+
+    const objectTypeId = `2-${1000 + this.schemas.length}`;
+    const schema = { ...body, id: objectTypeId, objectTypeId, fullyQualifiedName: `p0_${body.name}` };
+    this.schemas.push(schema);
+    this.properties.set(objectTypeId, new Map(
+      body.properties.map((p: any) => [p.name, { ...p, groupName: `${body.name}_information` }])
+    ));
+    return schema;
+  }
+
+  private storeFor(objectType: string): Map<string, StoredObject> {
+    if (!this.objects.has(objectType)) {
+      this.objects.set(objectType, new Map());
+    }
+    return this.objects.get(objectType)!;
+  }
+
+  private propertiesFor(objectType: string): Map<string, any> {
+    if (!this.properties.has(objectType)) {
+      if (objectType.startsWith('2-') || objectType === 'contacts') {
+        throw new HttpError(404, `Unknown object type ${objectType}`, 'OBJECT_NOT_FOUND');
+      }
+      this.properties.set(objectType, new Map());
+    }
+    return this.properties.get(objectType)!;
+  }
+
+  private takeFault(path: string, body: any): MockFault | null {
+    const inputIds = (body?.inputs ?? []).map((input: any) => String(input?.id).toLowerCase());
+    const fault = this.faults.find(f =>
+      f.remaining > 0 &&
+      (!f.path || path.includes(f.path)) &&
+      (!f.inputId || inputIds.includes(f.inputId.toLowerCase()))
+    );
+    if (fault) {
+      fault.remaining--;
+      return fault;
+    }
+
+    if (this.failureRate > 0 && Math.random() < this.failureRate) {
+      return { status: 503, remaining: 0 };
+    }
+    return null;
+  }
+
+  /** Returns rate-limit headers, or null when this request is over the limit. */
+  private rateLimit(): Record<string, string> | null {
+    if (!Number.isFinite(this.rateLimitPerWindow)) {
+      return {};
+    }
+
+    const now = Date.now();
+    if (now - this.windowStart >= this.rateLimitWindowMs) {
+      this.windowStart = now;
+      this.windowCount = 0;
+    }
+
+    if (this.windowCount >= this.rateLimitPerWindow) {
+      return null;
+    }
+    this.windowCount++;
+
+    return {
+      'X-HubSpot-RateLimit-Max': String(this.rateLimitPerWindow),
+      'X-HubSpot-RateLimit-Remaining': String(this.rateLimitPerWindow - this.windowCount),
+      'X-HubSpot-RateLimit-Interval-Milliseconds': String(this.rateLimitWindowMs),
+    };
+  }
+
+  private async readBody(req: IncomingMessage): Promise<any> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    if (chunks.length === 0) {
+      return {};
+    }
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      return {};
+    }
+  }
+
+  private send(res: ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(status === 204 ? undefined : JSON.stringify(payload));
+  }
+}
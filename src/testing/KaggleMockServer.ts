@@ -0,0 +1,116 @@
+// src/testing/KaggleMockServer.ts
+//
+// Local stand-in for Kaggle's dataset download endpoint
+// (GET /api/v1/datasets/download/{owner}/{dataset}) and metadata
+// (GET /api/v1/datasets/view/{owner}/{dataset}) so the API download
+// strategy can run without network access or a Kaggle account.
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { logger } from '../utils/Logger';
+
+export interface MockDataset {
+  fileName: string;          // Sent in Content-Disposition, e.g. "us-baby-names.zip"
+  body: Buffer | string;
+  version?: number;          // Reported as currentVersionNumber (default 1)
+  failAfterBytes?: number;   // Drop the connection after sending this many bytes, like an interrupted transfer
+}
+
+export interface KaggleMockServerOptions {
+  username?: string;         // Accepted API username (default "mock-user")
+  key?: string;              // Accepted API key (default "mock-key")
+  datasets?: Record<string, MockDataset>;  // Keyed by "owner/dataset"
+  chunkSize?: number;        // Bytes per write, to exercise streaming/progress
+}
+
+const SAMPLE_CSV = [
+  'YearOfBirth,Name,Sex,Number',
+  '1880,Mary,F,7065',
+  '1880,Anna,F,2604',
+  '1880,John,M,9655',
+  '1880,William,M,9532',
+  '',
+].join('\n');
+
+export class KaggleMockServer {
+  private server: http.Server;
+  private username: string;
+  private key: string;
+  private chunkSize: number;
+  readonly datasets: Map<string, MockDataset>;
+  readonly requestLog: { path: string; status: number }[] = [];
+
+  constructor(options: KaggleMockServerOptions = {}) {
+    this.username = options.username ?? 'mock-user';
+    this.key = options.key ?? 'mock-key';
+    this.chunkSize = options.chunkSize ?? 64 * 1024;
+    this.datasets = new Map(Object.entries(options.datasets ?? {
+      'thedevastator/us-baby-names-by-year-of-birth': { fileName: 'babyNamesUSYOB-full.csv', body: SAMPLE_CSV },
+    }));
+
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  async start(port: number = 0): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(port, '127.0.0.1', resolve));
+    const { port: actual } = this.server.address() as AddressInfo;
+    const apiBaseUrl = `http://127.0.0.1:${actual}/api/v1`;
+    logger.info(`Kaggle mock server listening on ${apiBaseUrl}`);
+    return apiBaseUrl;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) => this.server.close(err => (err ? reject(err) : resolve())));
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const reply = (status: number, message: string) => {
+      this.requestLog.push({ path: url.pathname, status });
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ code: status, message }));
+    };
+
+    const expected = `Basic ${Buffer.from(`${this.username}:${this.key}`).toString('base64')}`;
+    if (req.headers.authorization !== expected) {
+      return reply(401, 'Unauthenticated');
+    }
+
+    const match = url.pathname.match(/^\/api\/v1\/datasets\/(download|view)\/([^/]+\/[^/]+)$/);
+    if (req.method !== 'GET' || !match) {
+      return reply(404, `No route for ${req.method} ${url.pathname}`);
+    }
+
+    const [, action, ref] = match;
+    const dataset = this.datasets.get(ref);
+    if (!dataset) {
+      return reply(404, `Dataset ${ref} not found`);
+    }
+
+    if (action === 'view') {
+      this.requestLog.push({ path: url.pathname, status: 200 });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ref, currentVersionNumber: dataset.version ?? 1 }));
+      return;
+    }
+
+    const body = Buffer.isBuffer(dataset.body) ? dataset.body : Buffer.from(dataset.body);
+    this.requestLog.push({ path: url.pathname, status: 200 });
+    res.writeHead(200, {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': String(body.length),
+      'Content-Disposition': `attachment; filename="${dataset.fileName}"`,
+    });
+
+    const sent = body.subarray(0, dataset.failAfterBytes ?? body.length);
+    for (let offset = 0; offset < sent.length; offset += this.chunkSize) {
+      res.write(sent.subarray(offset, offset + this.chunkSize));
+    }
+    if (sent.length < body.length) {
+      // Content-Length promised the whole body, so the client sees a truncated response
+      res.socket?.end(() => res.destroy());
+      return;
+    }
+    res.end();
+  }
+}
@@ -0,0 +1,19 @@
+// src/utils/Checksum.ts
+
+import fs from 'fs';
+import { Readable } from 'stream';
+import { createHash } from 'crypto';
+
+/** Consumes a stream through SHA-256 and returns the hex digest. */
+export const sha256Stream = (stream: Readable): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    stream
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+
+/** Streams a file through SHA-256 and returns the hex digest. */
+export const sha256File = (filePath: string): Promise<string> =>
+  sha256Stream(fs.createReadStream(filePath));
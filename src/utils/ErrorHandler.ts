@@ -18,13 +18,14 @@ export const handleError = async (
   service: string,
   fallbackMessage: string
 ): Promise<void> => {
-  logger.error(`[${service}] ${fallbackMessage}`, error);
+  const log = logger.child({ service });
+  log.error(`[${service}] ${fallbackMessage}`, error);
   
   if (error instanceof AppError) {
-    logger.error(`[${error.code}] ${error.message}`);
+    log.error(`[${error.code}] ${error.message}`, undefined, { code: error.code, statusCode: error.statusCode });
   } else if (error.response?.status) {
-    logger.error(`HTTP ${error.response.status}: ${error.response.data?.message || error.message}`);
+    log.error(`HTTP ${error.response.status}: ${error.response.data?.message || error.message}`, undefined, { status: error.response.status });
   } else {
-    logger.error(error.message || fallbackMessage);
+    log.error(error.message || fallbackMessage);
   }
 };
\ No newline at end of file
@@ -0,0 +1,63 @@
+// src/utils/Glob.ts
+
+import fs from 'fs';
+import path from 'path';
+
+const WILDCARD = /[*?]/;
+
+const toRegExp = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" matches zero or more directories
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+/**
+ * Minimal glob expansion for data source paths: `*` and `?` within a
+ * segment, `**` across directories. Plain paths are returned if they exist.
+ * Results are sorted.
+ */
+export function expandGlob(pattern: string, cwd: string = process.cwd()): string[] {
+  const absolute = path.resolve(cwd, pattern).split(path.sep).join('/');
+
+  if (!WILDCARD.test(absolute)) {
+    return fs.existsSync(absolute) && fs.statSync(absolute).isFile() ? [absolute] : [];
+  }
+
+  const segments = absolute.split('/');
+  const firstWild = segments.findIndex(s => WILDCARD.test(s));
+  const baseDir = segments.slice(0, firstWild).join('/') || '/';
+  const recursive = segments.slice(firstWild).some(s => s === '**');
+  const maxDepth = recursive ? Infinity : segments.length - firstWild;
+  const matcher = toRegExp(absolute);
+
+  const results: string[] = [];
+  const walk = (dir: string, depth: number) => {
+    if (depth > maxDepth || !fs.existsSync(dir)) {
+      return;
+    }
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const full = `${dir === '/' ? '' : dir}/${entry.name}`;
+      if (entry.isDirectory()) {
+        walk(full, depth + 1);
+      } else if (entry.isFile() && matcher.test(full)) {
+        results.push(full);
+      }
+    }
+  };
+
+  walk(baseDir, 1);
+  return results.sort();
+}
@@ -0,0 +1,160 @@
+// src/utils/LogSinks.ts
+
+import fs from 'fs';
+import path from 'path';
+import type { LogRecord } from './Logger';
+
+export type LogFormat = 'pretty' | 'json';
+
+export interface LogSink {
+  write(record: LogRecord): void;
+  close?(): void;
+}
+
+const SYMBOLS: Record<string, string> = {
+  ERROR: '◆',
+  WARN: '▲',
+  INFO: '●',
+  DEBUG: '◈',
+  TRACE: '◇',
+  SUCCESS: '★',
+};
+
+const LABELS: Record<string, string> = {
+  ERROR: 'ERR',
+  WARN: 'WRN',
+  INFO: 'INF',
+  DEBUG: 'DBG',
+  TRACE: 'TRC',
+  SUCCESS: 'OK',
+};
+
+/** Local time of day; the decorated format is for people watching a terminal. */
+const timeOfDay = (date: Date): string =>
+  `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}:` +
+  `${date.getSeconds().toString().padStart(2, '0')}.${date.getMilliseconds().toString().padStart(3, '0')}`;
+
+function serializeError(error: unknown): unknown {
+  if (!(error instanceof Error)) {
+    return error;
+  }
+  const { code, statusCode } = error as Error & { code?: unknown; statusCode?: unknown };
+  return { name: error.name, message: error.message, code, statusCode, stack: error.stack };
+}
+
+/**
+ * One JSON object per line: ISO timestamp, lower-case level, service and
+ * message first, then the context and fields flat, then the error if any.
+ */
+export function toJsonLine(record: LogRecord): string {
+  const head = {
+    timestamp: record.timestamp.toISOString(),
+    level: record.level.toLowerCase(),
+    service: record.service,
+    message: record.message,
+  };
+  // Later spreads can't overwrite the head keys
+  const entry: Record<string, unknown> = { ...head, ...record.context, ...record.fields, ...head };
+  if (record.success) entry.success = true;
+  if (record.error !== undefined) entry.error = serializeError(record.error);
+
+  try {
+    return JSON.stringify(entry, (_, value) => (typeof value === 'bigint' ? value.toString() : value));
+  } catch {
+    // Circular fields; keep the record rather than lose it
+    return JSON.stringify({ ...head, unserializableFields: true });
+  }
+}
+
+/** stdout, except errors and warnings, which go to stderr. */
+export class ConsoleSink implements LogSink {
+  constructor(private format: LogFormat = 'pretty') {}
+
+  write(record: LogRecord): void {
+    const toStderr = record.level === 'ERROR' || record.level === 'WARN';
+
+    if (this.format === 'json') {
+      (toStderr ? process.stderr : process.stdout).write(`${toJsonLine(record)}\n`);
+      return;
+    }
+
+    const kind = record.success ? 'SUCCESS' : record.level;
+    const fields = Object.entries(record.fields)
+      .map(([key, value]) => ` ${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+      .join('');
+    const line = `[${timeOfDay(record.timestamp)}] ${SYMBOLS[kind]} [${LABELS[kind]}] ${record.message}${fields}`;
+
+    if (record.level === 'ERROR') {
+      if (record.error !== undefined) {
+        console.error(line, record.error);
+      } else {
+        console.error(line);
+      }
+    } else if (record.level === 'WARN') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+/**
+ * Appends JSON lines to a file. When the next line would take it past
+ * `maxBytes`, the file is renamed to <file>.1 (older ones shift up to
+ * <file>.<maxFiles>, the oldest is dropped) and a new one is started.
+ * Writes are synchronous, so nothing is lost when a CLI calls
+ * process.exit() right after logging.
+ */
+export class RotatingFileSink implements LogSink {
+  private fd: number | null = null;
+  private size = 0;
+
+  constructor(
+    private filePath: string,
+    private maxBytes: number = 10 * 1024 * 1024,
+    private maxFiles: number = 5
+  ) {
+    if (!Number.isInteger(maxBytes) || maxBytes < 1 || !Number.isInteger(maxFiles) || maxFiles < 0) {
+      throw new Error(`Invalid log file rotation settings (max bytes ${maxBytes}, max files ${maxFiles})`);
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.open();
+  }
+
+  write(record: LogRecord): void {
+    const line = `${toJsonLine(record)}\n`;
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      this.rotate();
+    }
+    fs.writeSync(this.fd!, line);
+    this.size += bytes;
+  }
+
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private open(): void {
+    this.fd = fs.openSync(this.filePath, 'a');
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  private rotate(): void {
+    this.close();
+    if (this.maxFiles === 0) {
+      fs.rmSync(this.filePath, { force: true });
+    } else {
+      for (let i = this.maxFiles - 1; i >= 1; i--) {
+        if (fs.existsSync(`${this.filePath}.${i}`)) {
+          fs.renameSync(`${this.filePath}.${i}`, `${this.filePath}.${i + 1}`);
+        }
+      }
+      fs.renameSync(this.filePath, `${this.filePath}.1`);
+    }
+    this.open();
+  }
+}
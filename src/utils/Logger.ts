@@ -1,60 +1,180 @@
 // src/utils/Logger.ts
+//
+// One logger for the whole app. Records go to every sink: the console
+// (decorated lines, or JSON lines with LOG_FORMAT=json) and optionally a
+// rotating JSON-lines file (LOG_FILE). Child loggers add fields such as
+// the service name; setContext() adds fields, like the pipeline run ID,
+// to every record from then on.
+
+import { randomUUID } from 'crypto';
+import dotenv from 'dotenv';
+import { ConsoleSink, LogFormat, LogSink, RotatingFileSink } from './LogSinks';
+
+dotenv.config();
 
 export enum LogLevel {
   ERROR = 'ERROR',
   WARN = 'WARN',
   INFO = 'INFO',
   DEBUG = 'DEBUG',
+  TRACE = 'TRACE',
+}
+
+// Lower is more severe; a record is written when its level is at or above the logger's
+const SEVERITY: Record<LogLevel, number> = {
+  [LogLevel.ERROR]: 0,
+  [LogLevel.WARN]: 1,
+  [LogLevel.INFO]: 2,
+  [LogLevel.DEBUG]: 3,
+  [LogLevel.TRACE]: 4,
+};
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogRecord {
+  timestamp: Date;
+  level: LogLevel;
+  message: string;
+  success?: boolean;        // logger.success(): INFO, shown with its own marker
+  service: string;          // From child({ service }), else the root's (LOG_SERVICE)
+  context: LogFields;       // setContext() fields, e.g. runId
+  fields: LogFields;        // Child bindings, then the call's own fields
+  error?: unknown;
+}
+
+/** State shared by a root logger and all of its children. */
+interface LoggerCore {
+  level: LogLevel;
+  service: string;
+  sinks: LogSink[];
+  context: LogFields;
+}
+
+export function parseLogLevel(value: string): LogLevel {
+  const level = value.toUpperCase() as LogLevel;
+  if (!(level in SEVERITY)) {
+    throw new Error(`Invalid LOG_LEVEL "${value}" (expected error, warn, info, debug or trace)`);
+  }
+  return level;
 }
 
 export class Logger {
-  private logLevel: LogLevel;
-  private readonly symbols = {
-    error: '◆',
-    warn: '▲',
-    info: '●',
-    debug: '◈',
-    success: '★',
-  };
+  private core: LoggerCore;
+  private bindings: LogFields;
+
+  constructor(logLevel: LogLevel = LogLevel.INFO, sinks: LogSink[] = [new ConsoleSink()], service: string = 'baby-names') {
+    this.core = { level: logLevel, service, sinks, context: {} };
+    this.bindings = {};
+  }
+
+  /** A logger that adds `bindings` to every record and shares this one's level, sinks and context. */
+  child(bindings: LogFields): Logger {
+    const child = new Logger();
+    child.core = this.core;
+    child.bindings = { ...this.bindings, ...bindings };
+    return child;
+  }
+
+  /** Merges fields into every later record, from this logger and all related ones (e.g. { runId }). */
+  setContext(fields: LogFields): void {
+    Object.assign(this.core.context, fields);
+  }
+
+  get context(): Readonly<LogFields> {
+    return this.core.context;
+  }
+
+  setLevel(level: LogLevel): void {
+    this.core.level = level;
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return SEVERITY[level] <= SEVERITY[this.core.level];
+  }
+
+  addSink(sink: LogSink): void {
+    this.core.sinks.push(sink);
+  }
+
+  /** Closes sinks that hold files open. */
+  close(): void {
+    for (const sink of this.core.sinks) {
+      sink.close?.();
+    }
+  }
 
-  constructor(logLevel: LogLevel = LogLevel.INFO) {
-    this.logLevel = logLevel;
+  error(message: string, error?: unknown, fields?: LogFields): void {
+    this.write(LogLevel.ERROR, message, fields, { error });
   }
 
-  private getTimestamp(): string {
-    const now = new Date();
-    return `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}:${now.getSeconds().toString().padStart(2, '0')}.${now.getMilliseconds().toString().padStart(3, '0')}`;
+  warn(message: string, fields?: LogFields): void {
+    this.write(LogLevel.WARN, message, fields);
   }
 
-  private formatOutput(level: string, symbol: string, message: string): string {
-    return `[${this.getTimestamp()}] ${symbol} [${level}] ${message}`;
+  info(message: string, fields?: LogFields): void {
+    this.write(LogLevel.INFO, message, fields);
   }
 
-  error(message: string, error?: any): void {
-    console.error(this.formatOutput('ERR', this.symbols.error, message), error || '');
+  debug(message: string, fields?: LogFields): void {
+    this.write(LogLevel.DEBUG, message, fields);
   }
 
-  warn(message: string): void {
-    console.warn(this.formatOutput('WRN', this.symbols.warn, message));
+  success(message: string, fields?: LogFields): void {
+    this.write(LogLevel.INFO, message, fields, { success: true });
   }
 
-  info(message: string): void {
-    console.log(this.formatOutput('INF', this.symbols.info, message));
+  trace(message: string, fields?: LogFields): void {
+    this.write(LogLevel.TRACE, message, fields);
   }
 
-  debug(message: string): void {
-    if (this.logLevel === LogLevel.DEBUG) {
-      console.log(this.formatOutput('DBG', this.symbols.debug, message));
+  private write(level: LogLevel, message: string, fields?: LogFields, extra: Partial<LogRecord> = {}): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const { service, ...bindings } = this.bindings;
+    const record: LogRecord = {
+      timestamp: new Date(),
+      level,
+      message,
+      service: typeof service === 'string' ? service : this.core.service,
+      context: { ...this.core.context },
+      fields: { ...bindings, ...fields },
+      ...extra,
+    };
+    for (const sink of this.core.sinks) {
+      sink.write(record);
     }
   }
+}
 
-  success(message: string): void {
-    console.log(this.formatOutput('OK', this.symbols.success, message));
+/**
+ * Root logger configured from the environment:
+ *   LOG_LEVEL           error | warn | info (default) | debug | trace
+ *   LOG_FORMAT          pretty (default) | json
+ *   LOG_FILE            also append JSON lines here, rotating at LOG_FILE_MAX_BYTES (default 10 MB)
+ *                       and keeping LOG_FILE_MAX_FILES old files (default 5)
+ *   LOG_SERVICE         service name on records from the root logger (default baby-names)
+ */
+function createLogger(env: NodeJS.ProcessEnv): Logger {
+  const format = (env.LOG_FORMAT || 'pretty') as LogFormat;
+  if (format !== 'pretty' && format !== 'json') {
+    throw new Error(`Invalid LOG_FORMAT "${format}" (expected pretty or json)`);
   }
 
-  trace(message: string, data?: any): void {
-    console.log(this.formatOutput('TRC', '◇', message), data || '');
+  const sinks: LogSink[] = [new ConsoleSink(format)];
+  if (env.LOG_FILE) {
+    sinks.push(new RotatingFileSink(
+      env.LOG_FILE,
+      parseInt(env.LOG_FILE_MAX_BYTES || String(10 * 1024 * 1024)),
+      parseInt(env.LOG_FILE_MAX_FILES || '5')
+    ));
   }
+
+  const root = new Logger(parseLogLevel(env.LOG_LEVEL || 'info'), sinks, env.LOG_SERVICE || 'baby-names');
+  // Correlates every record from this process; the pipeline replaces it with its (resumable) run ID
+  root.setContext({ runId: randomUUID() });
+  return root;
 }
 
-export const logger = new Logger(LogLevel.INFO);
\ No newline at end of file
+export const logger = createLogger(process.env);
@@ -0,0 +1,286 @@
+// src/utils/Metrics.ts
+//
+// In-process counters, gauges and histograms, readable as Prometheus text
+// (for a /metrics endpoint) or as a JSON snapshot (for run reports).
+
+export type Labels = Record<string, string>;
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export interface SeriesSnapshot {
+  labels: Labels;
+  value?: number;                      // Counters and gauges
+  count?: number;                      // Histograms: observations...
+  sum?: number;                        // ...their total...
+  buckets?: Record<string, number>;    // ...and how many were <= each bound ("+Inf" is all of them)
+}
+
+export interface MetricSnapshot {
+  name: string;
+  type: MetricType;
+  help: string;
+  series: SeriesSnapshot[];
+}
+
+// Prometheus client defaults, in seconds
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels): string => {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+const formatNumber = (value: number): string =>
+  Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN';
+
+abstract class Metric<S> {
+  abstract readonly type: MetricType;
+  protected series = new Map<string, { labels: Labels; state: S }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[] = []
+  ) {
+    if (!METRIC_NAME.test(name)) {
+      throw new Error(`Invalid metric name "${name}"`);
+    }
+  }
+
+  protected abstract initial(): S;
+
+  /** Labels in declared order, so the same labels given in any order map to one series. */
+  protected ordered(labels: Labels): Labels {
+    const keys = Object.keys(labels);
+    if (keys.length !== this.labelNames.length || !this.labelNames.every(name => typeof labels[name] === 'string')) {
+      throw new Error(`Metric ${this.name} takes labels [${this.labelNames.join(', ')}], got [${keys.join(', ')}]`);
+    }
+    const ordered: Labels = {};
+    for (const name of this.labelNames) {
+      ordered[name] = labels[name];
+    }
+    return ordered;
+  }
+
+  /** The series for `labels`, created on first use; labels must match the declared names exactly. */
+  protected state(labels: Labels): S {
+    const ordered = this.ordered(labels);
+    const key = JSON.stringify(ordered);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: ordered, state: this.initial() };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  /** Every series; one without labels is reported (as zero) before anything is recorded. */
+  protected entries(): { labels: Labels; state: S }[] {
+    if (this.labelNames.length === 0) {
+      this.state({});
+    }
+    return [...this.series.values()];
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  abstract snapshot(): MetricSnapshot;
+
+  abstract toPrometheus(): string[];
+}
+
+abstract class ValueMetric extends Metric<{ value: number }> {
+  protected initial() {
+    return { value: 0 };
+  }
+
+  /** Current value of one series; 0 if it hasn't been recorded. */
+  value(labels: Labels = {}): number {
+    return this.series.get(JSON.stringify(this.ordered(labels)))?.state.value ?? 0;
+  }
+
+  /** Sum over all series, optionally only those whose labels include `filter`. */
+  total(filter: Labels = {}): number {
+    let sum = 0;
+    for (const { labels, state } of this.entries()) {
+      if (Object.entries(filter).every(([key, value]) => labels[key] === value)) {
+        sum += state.value;
+      }
+    }
+    return sum;
+  }
+
+  snapshot(): MetricSnapshot {
+    return {
+      name: this.name,
+      type: this.type,
+      help: this.help,
+      series: this.entries().map(({ labels, state }) => ({ labels, value: state.value })),
+    };
+  }
+
+  toPrometheus(): string[] {
+    return this.entries().map(({ labels, state }) => `${this.name}${formatLabels(labels)} ${formatNumber(state.value)}`);
+  }
+}
+
+/** Only goes up; for things that happened (rows read, requests sent). */
+export class Counter extends ValueMetric {
+  readonly type = 'counter';
+
+  inc(amount: number = 1, labels: Labels = {}): void {
+    if (amount < 0) {
+      throw new Error(`Counter ${this.name} can't decrease (got ${amount})`);
+    }
+    this.state(labels).value += amount;
+  }
+}
+
+/** A current value that can go either way (bytes downloaded, stage running). */
+export class Gauge extends ValueMetric {
+  readonly type = 'gauge';
+
+  set(value: number, labels: Labels = {}): void {
+    this.state(labels).value = value;
+  }
+
+  inc(amount: number = 1, labels: Labels = {}): void {
+    this.state(labels).value += amount;
+  }
+}
+
+interface HistogramState {
+  counts: number[];      // Per bucket, not cumulative; the last one is +Inf
+  sum: number;
+  count: number;
+}
+
+/** Distribution of observed values, e.g. durations in seconds, over fixed upper bounds. */
+export class Histogram extends Metric<HistogramState> {
+  readonly type = 'histogram';
+  readonly buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS, labelNames: string[] = []) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  protected initial(): HistogramState {
+    return { counts: new Array(this.buckets.length + 1).fill(0), sum: 0, count: 0 };
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const state = this.state(labels);
+    const index = this.buckets.findIndex(bound => value <= bound);
+    state.counts[index === -1 ? this.buckets.length : index]++;
+    state.sum += value;
+    state.count++;
+  }
+
+  /** Starts timing; the returned function observes the elapsed seconds and returns them. */
+  startTimer(labels: Labels = {}): () => number {
+    const startedAt = process.hrtime.bigint();
+    return () => {
+      const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+      this.observe(seconds, labels);
+      return seconds;
+    };
+  }
+
+  private cumulative(state: HistogramState): [string, number][] {
+    let running = 0;
+    return [...this.buckets.map(formatNumber), '+Inf'].map((bound, i) => {
+      running += state.counts[i];
+      return [bound, running];
+    });
+  }
+
+  snapshot(): MetricSnapshot {
+    return {
+      name: this.name,
+      type: this.type,
+      help: this.help,
+      series: this.entries().map(({ labels, state }) => ({
+        labels,
+        count: state.count,
+        sum: state.sum,
+        buckets: Object.fromEntries(this.cumulative(state)),
+      })),
+    };
+  }
+
+  toPrometheus(): string[] {
+    const lines: string[] = [];
+    for (const { labels, state } of this.entries()) {
+      for (const [bound, count] of this.cumulative(state)) {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${count}`);
+      }
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatNumber(state.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${state.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Named metrics for this process. Asking for a name again returns the same
+ * metric, so modules can declare what they record without coordinating.
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric<unknown>>();
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(name, 'counter', () => new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(name, 'gauge', () => new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, options: { buckets?: number[]; labelNames?: string[] } = {}): Histogram {
+    return this.register(name, 'histogram', () => new Histogram(name, help, options.buckets, options.labelNames));
+  }
+
+  /** Prometheus text exposition format (version 0.0.4). */
+  toPrometheus(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.toPrometheus());
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  snapshot(): MetricSnapshot[] {
+    return [...this.metrics.values()].map(metric => metric.snapshot());
+  }
+
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+
+  private register<M extends Metric<any>>(name: string, type: MetricType, create: () => M): M {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing as M;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+export const metrics = new MetricsRegistry();
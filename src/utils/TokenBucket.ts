@@ -0,0 +1,52 @@
+// src/utils/TokenBucket.ts
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Client-side throttle: allows `capacity` requests per `intervalMs`,
+ * refilling continuously. take() waits until a token is available.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+
+  constructor(
+    private capacity: number,
+    private intervalMs: number
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.capacity) / this.intervalMs);
+    this.lastRefill = now;
+  }
+
+  async take(): Promise<void> {
+    while (true) {
+      const pause = this.pausedUntil - Date.now();
+      if (pause > 0) {
+        await sleep(pause);
+        continue;
+      }
+
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await sleep(Math.ceil(((1 - this.tokens) * this.intervalMs) / this.capacity));
+    }
+  }
+
+  /** Empties the bucket and blocks take() for `ms`, e.g. after the server says slow down. */
+  pause(ms: number): void {
+    this.tokens = 0;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+}